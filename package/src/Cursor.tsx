@@ -0,0 +1,34 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+
+/** The caret rendered for `cursor={true}`. */
+export const DEFAULT_CURSOR = '▍';
+
+// On for the first half of each second, off for the second
+const BLINK: Keyframe[] = [{ opacity: 1 }, { opacity: 1, offset: 0.5 }, { opacity: 0, offset: 0.5 }, { opacity: 0 }];
+
+/**
+ * Cursor
+ *
+ * The caret a TreeStream renders at its reveal point. It blinks through the
+ * Web Animations API (no stylesheet required) unless `blink` is false, is
+ * hidden from assistive technology, and carries `data-tree-stream-cursor`
+ * for custom styling.
+ */
+export function Cursor({ children, blink = true }: { children?: React.ReactNode; blink?: boolean }) {
+	const ref = useRef<HTMLSpanElement>(null);
+
+	useEffect(() => {
+		const el = ref.current;
+		if (!blink || !el || typeof el.animate !== 'function') return;
+		const animation = el.animate(BLINK, { duration: 1000, iterations: Infinity });
+		return () => animation.cancel();
+	}, [blink]);
+
+	return (
+		<span ref={ref} data-tree-stream-cursor="" aria-hidden="true">
+			{children}
+		</span>
+	);
+}
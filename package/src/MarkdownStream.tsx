@@ -0,0 +1,72 @@
+'use client';
+
+import React, { forwardRef, useMemo } from 'react';
+import { STREAMING_MARKER } from './nested';
+import { renderMarkdown, type MarkdownComponents } from './markdown';
+import { TreeStream, type TreeStreamHandle, type TreeStreamProps } from './TreeStream';
+import { useStreamSource } from './useStreamSource';
+
+/**
+ * Props for MarkdownStream: TreeStream props (except `deep`, which is always
+ * on) plus Markdown input and per-node element overrides.
+ */
+export type MarkdownStreamProps<E extends React.ElementType = 'div'> = Omit<TreeStreamProps<E>, 'children' | 'deep'> & {
+	/** Markdown text to render; may keep growing while streaming. */
+	children?: string;
+	/**
+	 * Element or component to render per node type, e.g.
+	 * `{ a: ExternalLink, code: HighlightedCode }`.
+	 */
+	components?: MarkdownComponents;
+};
+
+/**
+ * MarkdownStream - Stream Markdown with its structure instead of raw markup.
+ *
+ * Parses `children` (and the text of `source`, appended after it) into React
+ * elements and streams them through a deep TreeStream, so headings, lists,
+ * emphasis, links and code blocks appear with their final structure while
+ * their text is revealed. Unterminated constructs (an open code fence, half a
+ * bold marker) render gracefully, and while `pending` is set (or the source is
+ * still open) trailing markup that could still change meaning is held back so
+ * the stream keeps its position as the text grows.
+ *
+ * @example
+ * ```tsx
+ * <MarkdownStream pending={!done}>{partialAnswer}</MarkdownStream>
+ *
+ * <MarkdownStream source={response} components={{ a: ExternalLink }} />
+ * ```
+ */
+function MarkdownStreamRender<E extends React.ElementType = 'div'>(
+	{ children, components, source, onSourceEnd, onSourceError, pending, ...rest }: MarkdownStreamProps<E>,
+	ref: React.ForwardedRef<TreeStreamHandle>,
+) {
+	const { text: sourceText, done: sourceDone } = useStreamSource(source, {
+		onEnd: onSourceEnd,
+		onError: onSourceError,
+	});
+	const growing = Boolean(pending) || (source != null && !sourceDone);
+	const markdown = (children ?? '') + sourceText;
+	const content = useMemo(
+		() => renderMarkdown(markdown, { components, pending: growing }),
+		[markdown, components, growing],
+	);
+	const streamProps = rest as TreeStreamProps<E>;
+	return (
+		<TreeStream {...streamProps} ref={ref} deep pending={growing}>
+			{content}
+		</TreeStream>
+	);
+}
+
+/** MarkdownStream with ref support (see TreeStream for the typing cast). */
+export const MarkdownStream = forwardRef(MarkdownStreamRender) as unknown as (<E extends React.ElementType = 'div'>(
+	props: MarkdownStreamProps<E> & React.RefAttributes<TreeStreamHandle>,
+) => React.ReactElement | null) & { displayName?: string };
+
+/* coordinated like TreeStream when nested */
+(MarkdownStream as unknown as Record<string | symbol, unknown>)[STREAMING_MARKER] = true;
+MarkdownStream.displayName = 'MarkdownStream';
+
+export default MarkdownStream;
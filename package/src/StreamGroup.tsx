@@ -0,0 +1,109 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+
+type GroupEntry = { id: string; order: number; seq: number; done: boolean };
+
+type StreamGroupValue = {
+	register: (id: string, order: number) => () => void;
+	setOrder: (id: string, order: number) => void;
+	complete: (id: string) => void;
+	isReady: (id: string) => boolean;
+};
+
+/**
+ * The group a TreeStream registers with. TreeStream provides `null` to its
+ * own content, so nested streams stay coordinated by their parent stream.
+ */
+export const StreamGroupContext = createContext<StreamGroupValue | null>(null);
+
+export interface StreamGroupProps {
+	children?: React.ReactNode;
+	/** Called each time every registered stream has completed */
+	onComplete?: () => void;
+}
+
+/**
+ * StreamGroup
+ *
+ * Runs the TreeStreams rendered anywhere below it one after another, even
+ * when they live in different components, layout regions or portals.
+ *
+ * Contract:
+ *  - Streams register on mount and run in mount order (document order for
+ *    streams mounted together). A stream's `order` prop (default 0) sorts it
+ *    before (lower) or after (higher) the others; ties keep mount order.
+ *  - Each stream starts when all streams before it have completed. A stream
+ *    that unmounts leaves the sequence.
+ *  - TreeStreams nested inside another TreeStream are not registered; their
+ *    parent sequences them as usual.
+ *  - onComplete fires whenever all registered streams have completed.
+ */
+export function StreamGroup({ children, onComplete }: StreamGroupProps) {
+	const [entries, setEntries] = useState<GroupEntry[]>([]);
+	const seqRef = useRef(0);
+
+	const onCompleteRef = useRef(onComplete);
+	useEffect(() => {
+		onCompleteRef.current = onComplete;
+	}, [onComplete]);
+
+	const register = useCallback((id: string, order: number) => {
+		const seq = seqRef.current++;
+		setEntries((es) => [...es.filter((e) => e.id !== id), { id, order, seq, done: false }]);
+		return () => setEntries((es) => es.filter((e) => e.id !== id));
+	}, []);
+
+	const setOrder = useCallback((id: string, order: number) => {
+		setEntries((es) =>
+			es.some((e) => e.id === id && e.order !== order) ? es.map((e) => (e.id === id ? { ...e, order } : e)) : es,
+		);
+	}, []);
+
+	const complete = useCallback((id: string) => {
+		setEntries((es) =>
+			es.some((e) => e.id === id && !e.done) ? es.map((e) => (e.id === id ? { ...e, done: true } : e)) : es,
+		);
+	}, []);
+
+	// The first stream in sequence that has not completed yet is running
+	const activeId = useMemo(() => {
+		const sorted = [...entries].sort((a, b) => a.order - b.order || a.seq - b.seq);
+		return sorted.find((e) => !e.done)?.id ?? null;
+	}, [entries]);
+
+	const allDone = entries.length > 0 && activeId === null;
+	useEffect(() => {
+		if (allDone) onCompleteRef.current?.();
+	}, [allDone]);
+
+	const value = useMemo<StreamGroupValue>(
+		() => ({
+			register,
+			setOrder,
+			complete,
+			isReady: (id) => id === activeId || entries.some((e) => e.id === id && e.done),
+		}),
+		[register, setOrder, complete, activeId, entries],
+	);
+
+	return <StreamGroupContext.Provider value={value}>{children}</StreamGroupContext.Provider>;
+}
+
+/**
+ * useStreamGroupTurn
+ *
+ * Register a stream with the enclosing StreamGroup and report whether it may
+ * run. Outside a group it is always the stream's turn.
+ */
+export function useStreamGroupTurn(id: string, order: number, complete: boolean): boolean {
+	const group = useContext(StreamGroupContext);
+
+	useEffect(() => group?.register(id, order), [group?.register, id]);
+	useEffect(() => group?.setOrder(id, order), [group?.setOrder, id, order]);
+	useEffect(() => {
+		if (complete) group?.complete(id);
+	}, [group?.complete, id, complete]);
+
+	return group ? group.isReady(id) : true;
+}
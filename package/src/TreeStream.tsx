@@ -1,93 +1,109 @@
 'use client';
 
-import React, { useEffect, useMemo, useCallback, useRef, useId, useReducer } from 'react';
+import React, { forwardRef, useCallback, useImperativeHandle, useMemo, useRef, useState } from 'react';
 import { STREAMING_MARKER } from './nested';
-import { buildPlan, planSignature, type ExecutionUnit } from './plan';
-import { useSequentialScheduler } from './useSequentialScheduler';
-import { initialStreamState, streamReducer } from './reducer';
+import { assignRef } from './refs';
+import { useSkipOn, type SkipOn } from './skip';
+import { useIsomorphicLayoutEffect } from './ssr';
+import { useTreeStream, type TreeStreamHandle, type TreeStreamOptions } from './useTreeStream';
 
 /**
  * TreeStream
  *
- * A client-only React component that renders its children incrementally over time.
+ * A React component that renders its children incrementally over time; streaming
+ * runs on the client, and the `ssr` prop decides what the server renders.
  * It walks the provided React node tree into a linear execution plan of units:
- *  - text units (streamed by word or character)
+ *  - text units (streamed by word, character, sentence, line, paragraph or a
+ *    custom tokenizer)
  *  - instant units (regular React elements rendered immediately)
- *  - nested stream units (child TreeStream elements, coordinated by onComplete)
+ *  - nested stream units (child TreeStream elements, coordinated by onComplete,
+ *    and custom units marked with markStreamable, coordinated through useStreamUnit)
+ * With `deep`, elements are expanded into the units of their children and
+ * rebuilt around the revealed content (cloned parents with truncated children).
  *
  * Contract (inputs/outputs):
  *  - Props:
  *    - as: optional polymorphic element type; use 'fragment' for no wrapper
  *    - children: any renderable React nodes; fragments/arrays are flattened
- *    - speed: number of tokens per tick (tokens are words or characters)
+ *    - speed: number of tokens per tick (tokens as split by streamBy)
  *    - interval: ms between ticks
- *    - streamBy: 'word' | 'character' determines tokenization of text units
+ *    - streamBy: built-in strategy or custom tokenizer for text units
+ *    - locale: locale for word/grapheme segmentation (Intl.Segmenter)
+ *    - pace: 'natural' or a function deciding the delay/count of each tick
+ *    - duration / minInterval / maxSpeed: total time budget; derives interval/speed
+ *      from the token count, within the given bounds
+ *    - scheduler: runs ticks (setTimeout by default); also read from SchedulerContext
+ *    - order: position within an enclosing StreamGroup
+ *    - nestedMode: whether nested streams block the parent, run alongside it, or are detached
+ *    - reducedMotion: reveal everything at once for prefers-reduced-motion ('user'), always or never
+ *    - announce: expose the full text or chunked live announcements to assistive technology
+ *    - cursor / keepCursor: blinking caret at the reveal point, optionally kept after completion
+ *    - tokenAnimation: wrap newly revealed text in spans while it animates in
+ *    - suspense: hold the stream at instant units until their Suspense boundary resolves
+ *    - ssr / ssrPrefix: what the server renders ('empty', 'static' or 'replay'),
+ *      optionally only the first tokens
  *    - autoStart: start streaming automatically when inputs/signature change
+ *    - deep: stream text nested inside host elements and components
  *    - onComplete: called after the final unit completes (including nested)
+ *    - onStart / onUnitStart / onUnitComplete / onTick: lifecycle events
+ *    - source: AsyncIterable/ReadableStream/Response whose text streams after children
+ *    - pending: more children are expected; hold completion at the end of the plan
+ *    - onProgress / initialProgress / storageKey: report and restore the position across remounts
+ *    - skipOn: reveal everything at once when the user clicks the stream or presses a key
+ *    - wrapperRef: ref forwarded to the wrapper element
+ *  - Ref: a TreeStreamHandle with start/pause/resume/finish/restart controls
  *  - DOM: adds data attributes for observability:
- *    - data-tree-stream, data-streaming, data-complete
- *  - SSR: client-only ('use client'); streaming occurs in the browser
+ *    - data-tree-stream, data-streaming, data-complete, data-paused
+ *    - aria-busy while streaming
+ *  - SSR: 'use client'; streaming occurs in the browser. With `ssr` 'static' or
+ *    'replay' the content (or `ssrPrefix` tokens) is rendered on the server and
+ *    hydrated without a flash, then continued or replayed on the client
+ *  - Progress: a stream mounted with `initialProgress` (or progress saved
+ *    under `storageKey`) reveals what was already shown at once and continues
+ *    from there; completed streams are restored complete without firing onComplete
  *
  * Notes:
  *  - Nested TreeStream children have autoStart forced to true, and their
- *    onComplete is composed so the parent resumes after the child completes.
- *  - A stable "plan signature" is used to reset the stream only when structure
- *    or text content changes; this limits unnecessary restarts.
+ *    onComplete is composed so the parent resumes after the child completes
+ *    (or, with nestedMode 'parallel', completes once all children have).
+ *    Their refs are composed too, so pause/resume/finish reach running children.
+ *  - A stable "plan signature" is used to update the stream only when structure
+ *    or text content changes; this limits unnecessary work.
+ *  - When the new plan only extends the previous one (units appended, or the
+ *    last text unit grown), streaming continues from the current position.
+ *    Otherwise units are matched to the previous plan by key: those still
+ *    present stay revealed and edited text re-streams from where it diverges.
+ *  - The streaming logic lives in useTreeStream; TreeStream renders its nodes
+ *    in the wrapper element with the data attributes.
  */
 
-// ExecutionUnit is now imported from ./plan
+type OwnProps = TreeStreamOptions;
 
-/**
- * Props for TreeStream.
- * - speed: tokens per tick (>= 1). Tokens are words or characters per streamBy.
- * - interval: delay between ticks in ms.
- * - streamBy: tokenization strategy for text nodes.
- * - autoStart: if false, the component initializes idle until inputs change again or programmatically started in a future version.
- */
-/**
- * Core properties for the TreeStream component
- */
-type OwnProps = {
-	/**
-	 * Number of tokens to display per tick (must be >= 1).
-	 * Tokens are either words or characters based on the `streamBy` prop.
-	 * @default 5
-	 */
-	speed?: number;
-	/**
-	 * Delay between ticks in milliseconds.
-	 * Controls the animation speed of the streaming effect.
-	 * @default 50
-	 */
-	interval?: number;
-	/**
-	 * Tokenization strategy for text nodes.
-	 * - 'word': Text is split and streamed word by word
-	 * - 'character': Text is split and streamed character by character
-	 * @default 'word'
-	 */
-	streamBy?: 'word' | 'character';
+type AsProp<E extends React.ElementType> = { as?: E };
+type WrapperRefProp<E extends React.ElementType> = {
 	/**
-	 * Whether to automatically start streaming when the component mounts
-	 * or when inputs/signature change. If false, the component initializes
-	 * in an idle state.
-	 * @default true
+	 * Ref forwarded to the wrapper element (the `ref` of TreeStream itself
+	 * receives the TreeStreamHandle). Not available with React.Fragment.
 	 */
-	autoStart?: boolean;
+	wrapperRef?: React.Ref<React.ComponentRef<E>>;
+};
+type SkipOnProp = {
 	/**
-	 * Callback invoked after all content (including nested TreeStream components)
-	 * has finished streaming.
+	 * Reveal all remaining content (like `finish()`) when the user interacts
+	 * with a running stream: 'click' on the wrapper, 'keydown' anywhere on the
+	 * page, 'both', or a custom trigger `(skip) => cleanup`. Clicks need a
+	 * wrapper element; with React.Fragment only keydown and custom triggers work.
 	 */
-	onComplete?: () => void;
+	skipOn?: SkipOn;
 };
-
-type AsProp<E extends React.ElementType> = { as?: E };
-type PropsToOmit<E extends React.ElementType> = keyof (AsProp<E> & OwnProps);
+type PropsToOmit<E extends React.ElementType> = keyof (AsProp<E> & WrapperRefProp<E> & SkipOnProp & OwnProps);
 type PolymorphicProps<E extends React.ElementType> = AsProp<E> &
+	WrapperRefProp<E> &
+	SkipOnProp &
 	OwnProps &
 	Omit<React.ComponentPropsWithoutRef<E>, PropsToOmit<E>>;
 type FragmentPropsGuard<E extends React.ElementType> = E extends typeof React.Fragment
-	? { className?: never; style?: never }
+	? { className?: never; style?: never; wrapperRef?: never }
 	: {};
 
 /**
@@ -108,22 +124,20 @@ type FragmentPropsGuard<E extends React.ElementType> = E extends typeof React.Fr
  */
 export type TreeStreamProps<E extends React.ElementType = 'div'> = PolymorphicProps<E> & FragmentPropsGuard<E>;
 
-// Stable instance id for keys (SSR-friendly and deterministic)
-// Prefer useId over custom counters for readability and testability
+export type { TreeStreamHandle };
 
 // Helper to detect fragment usage
 function isFragmentElementType(as: React.ElementType | undefined): as is typeof React.Fragment {
 	return as === React.Fragment;
 }
 
-// buildPlan and planSignature are imported from ./plan
-
 /**
  * TreeStream - A React component that renders content with a streaming animation effect.
  *
  * Renders children incrementally over time, creating a typewriter-like effect.
- * Supports text streaming (by word or character), instant rendering of React elements,
- * and nested TreeStream components with coordinated completion callbacks.
+ * Supports text streaming (by word, character, sentence, line, paragraph or a custom
+ * tokenizer), instant rendering of React elements, and nested TreeStream components
+ * with coordinated completion callbacks.
  *
  * @template E - The element type for the wrapper component (defaults to 'div')
  * @param props - The component props
@@ -131,9 +145,40 @@ function isFragmentElementType(as: React.ElementType | undefined): as is typeof
  * @param props.children - React nodes to stream. Fragments and arrays are flattened
  * @param props.speed - Number of tokens to display per tick (default: 5)
  * @param props.interval - Milliseconds between ticks (default: 50)
- * @param props.streamBy - Tokenization strategy: 'word' or 'character' (default: 'word')
+ * @param props.streamBy - Tokenization strategy: 'word', 'character', 'sentence', 'line', 'paragraph' or a tokenizer function (default: 'word')
+ * @param props.locale - Locale for word and grapheme segmentation (default: runtime locale)
+ * @param props.pace - 'natural' or a function returning the delay and token count of each tick
+ * @param props.duration - Time budget in ms for the whole tree; overrides speed and interval
+ * @param props.minInterval - With duration, the shortest delay between ticks (default: 16)
+ * @param props.maxSpeed - With duration, the most tokens revealed per tick
+ * @param props.scheduler - Scheduler for ticks (default: SchedulerContext, then setTimeout)
+ * @param props.order - Position within an enclosing StreamGroup (default: 0)
+ * @param props.nestedMode - 'block', 'parallel' or 'detached' sequencing of nested streams (default: 'block')
+ * @param props.reducedMotion - 'user', 'always' or 'never' reveal everything at once (default: 'user')
+ * @param props.announce - 'off', 'full', 'sentence' or 'unit' exposure to assistive technology (default: 'off')
+ * @param props.cursor - Caret rendered at the reveal point: true for '▍' or any node
+ * @param props.keepCursor - Keep the caret after completion (default: false)
+ * @param props.tokenAnimation - Class name or options for spans around newly revealed text
+ * @param props.suspense - Hold at lazy/suspending instant units: true or { fallback, timeout }
+ * @param props.ssr - 'empty', 'static' or 'replay' server rendering (default: 'empty')
+ * @param props.ssrPrefix - With ssr, the number of text tokens rendered on the server (default: all)
  * @param props.autoStart - Start streaming automatically on mount/change (default: true)
+ * @param props.deep - Stream text nested inside elements instead of rendering them instantly (default: false)
  * @param props.onComplete - Callback when streaming completes (including nested streams)
+ * @param props.onStart - Callback when the stream starts
+ * @param props.onUnitStart - Callback with the unit and its index when a plan unit begins
+ * @param props.onUnitComplete - Callback with the unit and its index when a plan unit has been revealed
+ * @param props.onTick - Callback with the revealed and total token counts of the unit after each text tick
+ * @param props.source - AsyncIterable, ReadableStream or Response streamed after children as it arrives
+ * @param props.pending - Wait for more children instead of completing at the end (default: false)
+ * @param props.onProgress - Callback with a serializable progress snapshot as the stream moves forward
+ * @param props.initialProgress - Progress to resume from on mount
+ * @param props.storageKey - sessionStorage key to persist and restore progress under
+ * @param props.onSourceEnd - Callback with the full source text when the source ends
+ * @param props.onSourceError - Callback when reading the source fails
+ * @param props.skipOn - 'click', 'keydown', 'both' or a custom trigger that skips to the end
+ * @param props.wrapperRef - Ref forwarded to the wrapper element
+ * @param ref - Receives a TreeStreamHandle to start, pause, resume, finish or restart the stream
  *
  * @returns A React element that streams its content progressively
  *
@@ -154,152 +199,138 @@ function isFragmentElementType(as: React.ElementType | undefined): as is typeof
  *   Content here
  * </TreeStream>
  *
+ * // Stream inside markup
+ * <TreeStream deep>
+ *   <p>Paragraph text streams <strong>word by word</strong>.</p>
+ * </TreeStream>
+ *
  * // Nested streaming components
  * <TreeStream>
  *   First part
  *   <TreeStream>Nested content streams after parent</TreeStream>
  *   Final part
  * </TreeStream>
+ *
+ * // Imperative control
+ * <TreeStream ref={handleRef}>Long answer...</TreeStream>
+ * <button onClick={() => handleRef.current?.finish()}>Show full answer</button>
  * ```
  */
-export function TreeStream<E extends React.ElementType = 'div'>({
-	as,
-	children,
-	speed = 5,
-	interval = 50,
-	streamBy = 'word',
-	autoStart = true,
-	onComplete,
-	...rest
-}: TreeStreamProps<E>) {
-	const instanceId = useId();
-
-	// Keep latest onComplete in a ref to avoid effect resubscribes
-	const onCompleteRef = useRef<(() => void) | undefined>(onComplete);
-	useEffect(() => {
-		onCompleteRef.current = onComplete;
-	}, [onComplete]);
-
-	// Build plan & a stable signature
-	const plan = useMemo(() => buildPlan(children), [children]);
-	const signature = useMemo(() => planSignature(plan), [plan]);
+function TreeStreamRender<E extends React.ElementType = 'div'>(
+	{
+		as,
+		children,
+		speed,
+		interval,
+		streamBy,
+		locale,
+		pace,
+		duration,
+		minInterval,
+		maxSpeed,
+		scheduler,
+		order,
+		nestedMode,
+		reducedMotion,
+		announce,
+		cursor,
+		keepCursor,
+		tokenAnimation,
+		suspense,
+		ssr,
+		ssrPrefix,
+		autoStart,
+		deep,
+		onComplete,
+		onStart,
+		onUnitStart,
+		onUnitComplete,
+		onTick,
+		source,
+		pending,
+		onProgress,
+		initialProgress,
+		storageKey,
+		onSourceEnd,
+		onSourceError,
+		skipOn,
+		wrapperRef,
+		...rest
+	}: TreeStreamProps<E>,
+	ref: React.ForwardedRef<TreeStreamHandle>,
+) {
+	// Every option is listed so none is forwarded to the wrapper element
+	const options: { [K in keyof Required<TreeStreamOptions>]: TreeStreamOptions[K] } = {
+		speed,
+		interval,
+		streamBy,
+		locale,
+		pace,
+		duration,
+		minInterval,
+		maxSpeed,
+		scheduler,
+		order,
+		nestedMode,
+		reducedMotion,
+		announce,
+		cursor,
+		keepCursor,
+		tokenAnimation,
+		suspense,
+		ssr,
+		ssrPrefix,
+		autoStart,
+		deep,
+		onComplete,
+		onStart,
+		onUnitStart,
+		onUnitComplete,
+		onTick,
+		source,
+		pending,
+		onProgress,
+		initialProgress,
+		storageKey,
+		onSourceEnd,
+		onSourceError,
+	};
+	const stream = useTreeStream(children, options);
+	const { start, pause, resume, finish, restart } = stream;
 
-	// Store latest plan in a ref for the executor (avoids callback deps churn)
-	const latestPlanRef = useRef<ExecutionUnit[]>(plan);
-	useEffect(() => {
-		latestPlanRef.current = plan;
-	}, [plan]);
+	useImperativeHandle(ref, () => ({ start, pause, resume, finish, restart }), [
+		start,
+		pause,
+		resume,
+		finish,
+		restart,
+	]);
 
-	// Centralized scheduler for timers and run guards
-	const { schedule: scheduleNext, cancelAll, nextRunToken } = useSequentialScheduler();
+	// 'replay' keeps the wrapper at its server-rendered height until the replay completes
+	const wrapperElementRef = useRef<Element | null>(null);
+	const composedWrapperRef = useCallback(
+		(el: Element | null) => {
+			wrapperElementRef.current = el;
+			assignRef(wrapperRef as React.Ref<Element> | undefined, el);
+		},
+		[wrapperRef],
+	);
+	const needsWrapperRef = wrapperRef != null || ssr === 'replay' || skipOn === 'click' || skipOn === 'both';
+	// Skip to the end on user interaction while the stream runs
+	useSkipOn(skipOn, stream.started && !stream.complete, finish, wrapperElementRef);
 
-	// Internal state managed via reducer
-	const [state, dispatch] = useReducer(streamReducer, initialStreamState);
-	const {
-		unitIndex: currentUnit,
-		waitingNested: isWaitingForNested,
-		rendered: renderedMap,
-		text,
-		complete: isComplete,
-	} = state;
-	const activeTextUnitRef = useRef<number | null>(text.activeUnit);
-
-	// Executor (reads latest plan from ref; stable callback)
-	const runUnit = useCallback((unitIndex: number) => {
-		const currentPlan = latestPlanRef.current;
-		if (unitIndex >= plan.length) {
-			dispatch({ type: 'COMPLETE' });
-			onCompleteRef.current?.();
-			return;
-		}
-		const unit = currentPlan[unitIndex];
-		if (!unit) return;
-		switch (unit.type) {
-			case 'text_stream': {
-				const units = streamBy === 'character' ? unit.content.split('') : unit.content.split(/(\s+)/);
-				activeTextUnitRef.current = unitIndex;
-				dispatch({ type: 'BEGIN_TEXT', unitIndex, tokens: units });
-				break;
-			}
-			case 'instant_render': {
-				dispatch({ type: 'INSTANT_RENDER', unitIndex, node: unit.content });
-				const next = unitIndex + 1;
-				dispatch({ type: 'ADVANCE' });
-				scheduleNext(() => runUnit(next), 0);
-				break;
-			}
-			case 'nested_stream': {
-				// Compose child's onComplete with parent advance
-				const child = unit.component;
-				const childExisting = (child.props as { onComplete?: () => void })?.onComplete as
-					| (() => void)
-					| undefined;
-				const composed = () => {
-					try {
-						childExisting?.();
-					} finally {
-						dispatch({ type: 'NESTED_DONE' });
-						const next = unitIndex + 1;
-						dispatch({ type: 'ADVANCE' });
-						scheduleNext(() => runUnit(next), 0);
-					}
-				};
-				const nestedWithCb = React.cloneElement(child, {
-					...child.props,
-					autoStart: true,
-					onComplete: composed,
-				});
-				dispatch({ type: 'NESTED_START', unitIndex, node: nestedWithCb });
-				break; // wait for nested to call back
-			}
-		}
+	const [reservedHeight, setReservedHeight] = useState<number | null>(null);
+	useIsomorphicLayoutEffect(() => {
+		if (!stream.replaying) return;
+		const height = wrapperElementRef.current?.getBoundingClientRect().height;
+		if (height) setReservedHeight(height);
 	}, []);
 
-	// Text tick
-	useEffect(() => {
-		if (!text.streaming || text.tokens.length === 0) return;
-		if (text.index >= text.tokens.length) {
-			dispatch({ type: 'END_TEXT' });
-			const next = currentUnit + 1;
-			dispatch({ type: 'ADVANCE' });
-			scheduleNext(() => runUnit(next), 0);
-			return;
-		}
-		scheduleNext(() => {
-			const step = Math.max(1, speed ?? 1);
-			const nextIndex = Math.min(text.index + step, text.tokens.length);
-			const textContent = text.tokens.slice(0, nextIndex).join('');
-			dispatch({ type: 'TEXT_TICK', nextIndex, content: textContent });
-		}, Math.max(0, interval ?? 0));
-	}, [text.streaming, text.tokens, text.index, speed, interval, currentUnit, runUnit, scheduleNext]);
-
-	// Reset ONLY when the signature or autoStart change
-	useEffect(() => {
-		nextRunToken();
-		activeTextUnitRef.current = null;
-		dispatch({ type: 'RESET' });
-
-		const planLen = latestPlanRef.current.length;
-		if (planLen === 0) {
-			dispatch({ type: 'COMPLETE' });
-			onCompleteRef.current?.();
-			return;
-		}
-		if (autoStart) runUnit(0);
-
-		return () => {
-			cancelAll();
-		};
-	}, [signature, autoStart, runUnit, nextRunToken, cancelAll]);
-
 	// Memoise element creation
+	const { nodes, streaming, complete, paused, replaying } = stream;
 	const element = useMemo(() => {
-		const children = Array.from(renderedMap.entries()).map(([unitIndex, content]) => (
-			<React.Fragment key={`${instanceId}:u${unitIndex}`}>{content}</React.Fragment>
-		));
-
 		if (isFragmentElementType(as)) {
-			return <React.Fragment>{children}</React.Fragment>;
+			return <React.Fragment>{nodes}</React.Fragment>;
 		}
 
 		// The type guard ensures `as` is not Fragment here.
@@ -311,21 +342,34 @@ export function TreeStream<E extends React.ElementType = 'div'>({
 		};
 		const props = {
 			...elementProps,
+			// Only when needed: `as` may be a function component that takes no ref
+			ref: needsWrapperRef ? composedWrapperRef : undefined,
 			className,
-			style,
+			style: reservedHeight != null && replaying ? { ...style, minHeight: reservedHeight } : style,
 			'data-tree-stream': true,
-			'data-streaming': text.streaming || isWaitingForNested,
-			'data-complete': isComplete,
+			'data-streaming': streaming,
+			'data-complete': complete,
+			'data-paused': paused,
+			'aria-busy': streaming || undefined,
 		};
 
-		return <Element {...props}>{children}</Element>;
-	}, [as, rest, text.streaming, isWaitingForNested, isComplete, renderedMap, instanceId]);
+		return <Element {...props}>{nodes}</Element>;
+	}, [as, rest, needsWrapperRef, composedWrapperRef, reservedHeight, replaying, streaming, complete, paused, nodes]);
 
 	return element;
 }
 
-/* mark component for wrapped detection */
+/**
+ * TreeStream with ref support. forwardRef erases the generic signature, so
+ * the polymorphic call signature is restored with a cast.
+ */
+export const TreeStream = forwardRef(TreeStreamRender) as unknown as (<E extends React.ElementType = 'div'>(
+	props: TreeStreamProps<E> & React.RefAttributes<TreeStreamHandle>,
+) => React.ReactElement | null) & { displayName?: string };
+
+/* mark component (and its render function) for wrapped detection */
 (TreeStream as unknown as Record<string | symbol, unknown>)[STREAMING_MARKER] = true;
+(TreeStreamRender as unknown as Record<string | symbol, unknown>)[STREAMING_MARKER] = true;
 TreeStream.displayName = 'TreeStream';
 
 export default TreeStream;
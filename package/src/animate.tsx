@@ -0,0 +1,64 @@
+import React from 'react';
+
+/**
+ * How newly revealed text is wrapped while it animates in.
+ * - className / style: applied to the span around each chunk
+ * - render: render a chunk yourself instead of the default span
+ * - duration: ms before the chunk is merged back into plain text; match it
+ *   to the length of your CSS animation
+ */
+export interface TokenAnimationOptions {
+	className?: string;
+	style?: React.CSSProperties;
+	render?: (chunk: string) => React.ReactNode;
+	/** @default 300 */
+	duration?: number;
+}
+
+/** A class name for the span around each chunk, or TokenAnimationOptions. */
+export type TokenAnimation = string | TokenAnimationOptions;
+
+/** Text revealed by one tick (offsets into its unit's content), still animating. */
+export type AnimatedChunk = { id: number; unitIndex: number; start: number; end: number };
+
+export function resolveTokenAnimation(animation: TokenAnimation | undefined): TokenAnimationOptions | null {
+	if (animation == null) return null;
+	return typeof animation === 'string' ? { className: animation } : animation;
+}
+
+/**
+ * renderAnimated
+ *
+ * Render the content of a text unit with its animating chunks wrapped, and
+ * everything before them as plain text. Chunks that no longer fit the
+ * content are left out.
+ */
+export function renderAnimated(
+	content: string,
+	chunks: AnimatedChunk[],
+	options: TokenAnimationOptions,
+): React.ReactNode {
+	const visible = chunks.filter((c) => c.end <= content.length).sort((a, b) => a.start - b.start);
+	if (visible.length === 0) return content;
+	const out: React.ReactNode[] = [];
+	let offset = 0;
+	for (const chunk of visible) {
+		if (chunk.start < offset) continue;
+		if (chunk.start > offset) out.push(content.slice(offset, chunk.start));
+		const text = content.slice(chunk.start, chunk.end);
+		out.push(
+			<React.Fragment key={`t${chunk.id}`}>
+				{options.render ? (
+					options.render(text)
+				) : (
+					<span className={options.className} style={options.style} data-tree-stream-token="">
+						{text}
+					</span>
+				)}
+			</React.Fragment>,
+		);
+		offset = chunk.end;
+	}
+	if (offset < content.length) out.push(content.slice(offset));
+	return out;
+}
@@ -0,0 +1,142 @@
+import React from 'react';
+import { assembleRendered } from './assemble';
+import type { ExecutionUnit } from './plan';
+import { tokenize } from './tokenize';
+
+/**
+ * How streamed content is exposed to assistive technology.
+ * - 'off': only `aria-busy` on the wrapper while streaming
+ * - 'full': the complete final content is available from the start in a
+ *   visually hidden copy; the animated copy is `aria-hidden` and inert
+ * - 'sentence' / 'unit': the animated copy is `aria-hidden` and inert, and a
+ *   polite live region announces the revealed text (including the text of
+ *   revealed elements) one sentence / unit at a time
+ * Once the stream completes, the animated copy is exposed as is.
+ */
+export type Announce = 'off' | 'full' | 'sentence' | 'unit';
+
+/** Hide content visually while keeping it available to screen readers. */
+export const VISUALLY_HIDDEN: React.CSSProperties = {
+	position: 'absolute',
+	width: 1,
+	height: 1,
+	padding: 0,
+	margin: -1,
+	overflow: 'hidden',
+	clip: 'rect(0, 0, 0, 0)',
+	whiteSpace: 'nowrap',
+	border: 0,
+};
+
+/**
+ * fullCopy
+ *
+ * The complete content of a plan, for the 'full' accessible copy. It is a
+ * static rendering so nothing mounts twice: host elements keep their
+ * semantics (links, headings, images, lists) but lose ids, event handlers and
+ * autoFocus, and components (nested streams included) are replaced by their
+ * static children. What a component renders by itself is exposed once the
+ * stream completes and the animated copy is no longer hidden.
+ */
+export function fullCopy(plan: ExecutionUnit[], keyPrefix: string): React.ReactNode[] {
+	const rendered = new Map<number, React.ReactNode>();
+	const staticPlan = plan.map((unit, index) => {
+		if (unit.type === 'text_stream') rendered.set(index, unit.content);
+		else rendered.set(index, staticNode(unit.type === 'nested_stream' ? unit.component : unit.content));
+		if (!unit.path) return unit;
+		return { ...unit, path: unit.path.map((frame) => ({ ...frame, element: staticShell(frame.element) })) };
+	});
+	return assembleRendered(staticPlan, rendered, keyPrefix);
+}
+
+function staticNode(node: React.ReactNode): React.ReactNode {
+	return React.Children.map(node, (child) => {
+		if (!React.isValidElement(child)) return child;
+		const props = child.props as { children?: React.ReactNode; dangerouslySetInnerHTML?: unknown };
+		if (typeof child.type !== 'string') return staticNode(props.children);
+		const children = props.dangerouslySetInnerHTML == null ? staticNode(props.children) : undefined;
+		return React.createElement(child.type, staticProps(child.props as Record<string, unknown>), children);
+	});
+}
+
+// A path element of a deep plan, with its children filled in by assembleRendered
+function staticShell(element: React.ReactElement): React.ReactElement {
+	if (typeof element.type !== 'string') return React.createElement(React.Fragment);
+	return React.createElement(element.type, staticProps(element.props as Record<string, unknown>));
+}
+
+function staticProps(props: Record<string, unknown>): Record<string, unknown> {
+	const copy: Record<string, unknown> = {};
+	for (const [name, value] of Object.entries(props)) {
+		if (name === 'children' || name === 'id' || name === 'autoFocus' || /^on[A-Z]/.test(name)) continue;
+		copy[name] = value;
+	}
+	// Controlled form fields lose their onChange
+	if ('value' in copy || 'checked' in copy) copy.readOnly = true;
+	return copy;
+}
+
+// The text a node reads as: its strings and numbers, and the alt text of
+// images. Components contribute the text of their static children.
+function textOf(node: React.ReactNode): string {
+	let text = '';
+	React.Children.forEach(node, (child) => {
+		if (typeof child === 'string' || typeof child === 'number') text += child;
+		else if (React.isValidElement(child)) {
+			const props = child.props as { children?: React.ReactNode; alt?: unknown };
+			text += child.type === 'img' && typeof props.alt === 'string' ? props.alt : textOf(props.children);
+		}
+	});
+	return text;
+}
+
+/**
+ * announcementChunks
+ *
+ * Split the text revealed so far into the chunks a live region should
+ * announce, each appended as its own node so screen readers only read the
+ * new chunk.
+ *
+ * Inputs:
+ * - plan / rendered: the plan and revealed content per unit
+ * - active: indexes of the units still being revealed (the streaming text
+ *   unit, nested streams still running). Other elements are announced by
+ *   their text (see textOf) once revealed.
+ * - complete: whether the stream has completed (flushes a trailing partial sentence)
+ * - mode: 'sentence' or 'unit'
+ */
+export function announcementChunks(
+	plan: ExecutionUnit[],
+	rendered: Map<number, React.ReactNode>,
+	active: ReadonlySet<number>,
+	complete: boolean,
+	mode: 'sentence' | 'unit',
+): string[] {
+	const parts: { text: string; done: boolean; block: string | undefined }[] = [];
+	const indexes = Array.from(rendered.keys()).sort((a, b) => a - b);
+	for (const index of indexes) {
+		const unit = plan[index];
+		const content = rendered.get(index);
+		const done = !active.has(index);
+		if (unit?.type === 'text_stream' && typeof content === 'string') {
+			parts.push({ text: content, done, block: unit.path?.[0]?.key });
+		} else if (unit && unit.type !== 'text_stream' && done) {
+			// Elements read as a block of their own
+			const element = unit.type === 'nested_stream' ? unit.component : unit.content;
+			parts.push({ text: textOf(element), done, block: unit.key });
+		}
+	}
+	if (mode === 'unit') return parts.filter((p) => p.done && p.text.trim()).map((p) => p.text.trim());
+
+	// Join the parts, separating those in different top-level elements
+	let text = '';
+	parts.forEach((part, i) => {
+		if (i > 0 && part.block !== parts[i - 1].block && !/\s$/.test(text)) text += ' ';
+		text += part.text;
+	});
+	const sentences = tokenize(text, 'sentence');
+	// Until its terminator and whitespace have been revealed, the last sentence may still be growing
+	const last = sentences[sentences.length - 1];
+	if (!complete && last != null && !/(?:[.!?]['")\]]*\s+|\n\s*)$/.test(last)) sentences.pop();
+	return sentences.map((s) => s.trim()).filter(Boolean);
+}
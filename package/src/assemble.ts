@@ -0,0 +1,70 @@
+import React from 'react';
+import type { ExecutionUnit } from './plan';
+
+/**
+ * assembleRendered
+ *
+ * Turn the revealed units of a plan back into a React tree.
+ *
+ * Inputs:
+ * - plan: the current execution plan
+ * - rendered: revealed content per unit index (emitted in plan order)
+ * - keyPrefix: instance-unique prefix for generated keys
+ * - cursor: optional node placed right after the unit at index `after`
+ *   (inside the same path elements), or first when `after` is -1
+ *
+ * Outputs:
+ * - Keyed nodes for the wrapper. Shallow units are emitted as-is; units from
+ *   a deep plan are regrouped under clones of their path elements, so a
+ *   partially revealed <p> only contains the children revealed so far.
+ */
+export function assembleRendered(
+	plan: ExecutionUnit[],
+	rendered: Map<number, React.ReactNode>,
+	keyPrefix: string,
+	cursor?: { after: number; node: React.ReactNode },
+): React.ReactNode[] {
+	// Units are keyed by their plan key, so they keep their DOM when they move
+	const entries: Entry[] = Array.from(rendered.entries()).map(([index, content]) => ({
+		index,
+		content,
+		path: plan[index]?.path ?? [],
+		key: `${keyPrefix}:u${plan[index]?.key ?? index}`,
+	}));
+	// Units inserted by a plan change are revealed after the ones around them
+	entries.sort((a, b) => a.index - b.index);
+	if (cursor) {
+		// A separate entry, so adding or moving it never changes the unit's own subtree
+		const position = entries.findIndex((e) => e.index === cursor.after);
+		entries.splice(position + 1, 0, {
+			index: cursor.after,
+			content: cursor.node,
+			path: position >= 0 ? entries[position].path : [],
+			key: `${keyPrefix}:cursor`,
+		});
+	}
+	return assembleLevel(entries, 0, keyPrefix);
+}
+
+type Entry = { index: number; content: React.ReactNode; path: NonNullable<ExecutionUnit['path']>; key: string };
+
+function assembleLevel(entries: Entry[], depth: number, keyPrefix: string): React.ReactNode[] {
+	const out: React.ReactNode[] = [];
+	let i = 0;
+	while (i < entries.length) {
+		const frame = entries[i].path[depth];
+		if (!frame) {
+			const { content, key } = entries[i];
+			out.push(React.createElement(React.Fragment, { key }, content));
+			i += 1;
+			continue;
+		}
+		// Group consecutive entries that share this ancestor
+		let j = i + 1;
+		while (j < entries.length && entries[j].path[depth]?.key === frame.key) j += 1;
+		const children = assembleLevel(entries.slice(i, j), depth + 1, keyPrefix);
+		out.push(React.cloneElement(frame.element, { key: `${keyPrefix}:f${frame.key}` }, children));
+		i = j;
+	}
+	return out;
+}
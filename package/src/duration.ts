@@ -0,0 +1,75 @@
+import type React from 'react';
+import { isTreeStreamElement } from './nested';
+import { buildPlan, type ExecutionUnit } from './plan';
+import { tokenize, type StreamBy } from './tokenize';
+
+export interface TokenCountOptions {
+	streamBy?: StreamBy;
+	locale?: string;
+}
+
+/**
+ * planTokenCounts
+ *
+ * Count the tokens of every text unit in a plan, descending into nested
+ * TreeStream units with their own `children`, `deep`, `streamBy` and `locale`.
+ *
+ * Outputs:
+ * - One entry per text unit (nested units contribute their own entries), in
+ *   reveal order. Instant units are not counted: they render without a tick,
+ *   and neither are custom stream units, which pace themselves.
+ */
+export function planTokenCounts(plan: ExecutionUnit[], options: TokenCountOptions = {}): number[] {
+	const counts: number[] = [];
+	plan.forEach((unit, unitIndex) => {
+		if (unit.type === 'text_stream') {
+			counts.push(
+				tokenize(unit.content, options.streamBy, { unitIndex, revealed: '', locale: options.locale }).length,
+			);
+		} else if (unit.type === 'nested_stream' && isTreeStreamElement(unit.component)) {
+			const props = unit.component.props as {
+				children?: React.ReactNode;
+				deep?: boolean;
+				streamBy?: StreamBy;
+				locale?: string;
+			};
+			const nestedPlan = buildPlan(props.children, { deep: props.deep });
+			counts.push(
+				...planTokenCounts(nestedPlan, {
+					streamBy: props.streamBy ?? 'word',
+					locale: props.locale ?? options.locale,
+				}),
+			);
+		}
+	});
+	return counts;
+}
+
+export interface DurationOptions {
+	/** Total time budget in ms */
+	duration: number;
+	/** Lower bound for the tick interval in ms */
+	minInterval: number;
+	/** Upper bound for tokens revealed per tick */
+	maxSpeed?: number;
+}
+
+/**
+ * pacingForDuration
+ *
+ * Derive `interval` and `speed` so that revealing the given token counts takes
+ * `duration` ms. Ticks are spread evenly; when that would tick faster than
+ * `minInterval`, tokens are grouped per tick instead. With `maxSpeed` the
+ * grouping is capped, so very long content may exceed the budget.
+ */
+export function pacingForDuration(counts: number[], options: DurationOptions): { interval: number; speed: number } {
+	const duration = Math.max(0, options.duration);
+	const minInterval = Math.max(0, options.minInterval);
+	const total = counts.reduce((sum, n) => sum + n, 0);
+	if (total === 0) return { interval: minInterval, speed: 1 };
+	let speed = minInterval > 0 ? Math.max(1, Math.ceil((total * minInterval) / Math.max(1, duration))) : 1;
+	if (options.maxSpeed != null) speed = Math.max(1, Math.min(speed, Math.floor(options.maxSpeed)));
+	// Each text unit ends on a partial tick, so count ticks per unit
+	const ticks = counts.reduce((sum, n) => sum + Math.ceil(n / speed), 0);
+	return { interval: Math.max(minInterval, duration / ticks), speed };
+}
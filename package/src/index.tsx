@@ -1,5 +1,63 @@
 export { TreeStream } from './TreeStream';
-export type { TreeStreamProps } from './TreeStream';
+export type { TreeStreamProps, TreeStreamHandle } from './TreeStream';
 export { default } from './TreeStream';
-export { buildPlan, planSignature, type ExecutionUnit } from './plan';
-export { isTreeStreamElement, STREAMING_MARKER } from './nested';
+export { useTreeStream } from './useTreeStream';
+export type { TreeStreamOptions, TreeStreamResult } from './useTreeStream';
+export {
+	buildPlan,
+	planContinuation,
+	planMatches,
+	planSignature,
+	type ExecutionUnit,
+	type PlanFrame,
+	type PlanOptions,
+} from './plan';
+export {
+	tokenize,
+	tokenizers,
+	type StreamBy,
+	type StreamByStrategy,
+	type Tokenizer,
+	type TokenizerContext,
+} from './tokenize';
+export {
+	createNaturalPace,
+	type NaturalPaceOptions,
+	type Pace,
+	type PaceFunction,
+	type PacePreset,
+	type PaceStep,
+	type PaceUnit,
+} from './pace';
+export {
+	createFrameScheduler,
+	createTimeoutScheduler,
+	createVirtualClock,
+	defaultScheduler,
+	SchedulerContext,
+	withTransition,
+	type Scheduler,
+	type VirtualClock,
+	type VirtualClockOptions,
+} from './scheduler';
+export { StreamGroup } from './StreamGroup';
+export type { StreamGroupProps } from './StreamGroup';
+export { usePrefersReducedMotion, type ReducedMotion } from './useReducedMotion';
+export type { Announce } from './announce';
+export type { SsrMode } from './ssr';
+export type { StreamProgress, StreamTick } from './progress';
+export type { TokenAnimation, TokenAnimationOptions } from './animate';
+export type { SuspenseOptions, SuspenseUnits } from './suspense';
+export type { SkipOn, SkipTrigger } from './skip';
+export {
+	isStreamUnitElement,
+	isTreeStreamElement,
+	markStreamable,
+	STREAM_UNIT_MARKER,
+	STREAMING_MARKER,
+} from './nested';
+export { useStreamUnit, type StreamUnit } from './streamUnit';
+export { useStreamSource, readStreamSource, type StreamSource, type StreamSourceState } from './useStreamSource';
+export { MarkdownStream } from './MarkdownStream';
+export type { MarkdownStreamProps } from './MarkdownStream';
+export { renderMarkdown, type MarkdownComponents, type MarkdownElement, type MarkdownOptions } from './markdown';
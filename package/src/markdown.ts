@@ -0,0 +1,405 @@
+import React from 'react';
+
+/** Element names produced by renderMarkdown, overridable per node type. */
+export type MarkdownElement =
+	| 'p'
+	| 'h1'
+	| 'h2'
+	| 'h3'
+	| 'h4'
+	| 'h5'
+	| 'h6'
+	| 'ul'
+	| 'ol'
+	| 'li'
+	| 'blockquote'
+	| 'pre'
+	| 'code'
+	| 'em'
+	| 'strong'
+	| 'del'
+	| 'a'
+	| 'img'
+	| 'hr';
+
+/** Map of Markdown node types to the element or component rendering them. */
+export type MarkdownComponents = Partial<Record<MarkdownElement, React.ElementType>>;
+
+/**
+ * Options for renderMarkdown.
+ * - components: element or component to use per node type
+ * - pending: the text may still grow; trailing constructs that could change
+ *   meaning with more input (a lone `*`, an unfinished link, a last line that
+ *   may become a list marker or heading, empty blocks) are held back so the
+ *   rendered tree only ever grows at its end
+ */
+export interface MarkdownOptions {
+	components?: MarkdownComponents;
+	pending?: boolean;
+}
+
+type Block =
+	| { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; text: string }
+	| { type: 'paragraph'; text: string }
+	| { type: 'code'; lang: string; text: string }
+	| { type: 'blockquote'; children: Block[] }
+	| { type: 'list'; ordered: boolean; start: number; tight: boolean; items: Block[][] }
+	| { type: 'hr' };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const HR = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+// A last line that is blank or made only of marker characters may still change the
+// block structure (a fence closing, a list item starting, a setext underline)
+const PARTIAL_MARKER = /^ {0,3}(?:[-*_+=#>`~]+|\d{1,9}[.)]?)?[ \t]*$/;
+
+/**
+ * renderMarkdown
+ *
+ * Parse a Markdown string into React elements suitable for a deep TreeStream
+ * plan (all keys are position-based, so a growing string yields a plan that
+ * extends the previous one).
+ *
+ * Supported: ATX headings, paragraphs, bullet/ordered (nested) lists,
+ * blockquotes, fenced code blocks, thematic breaks, emphasis, strong,
+ * strikethrough, inline code, links, images and backslash escapes.
+ *
+ * Unterminated constructs degrade gracefully: an open code fence runs to the
+ * end of the input, and an unclosed `**`, `*`, `~~` or backtick applies to the
+ * rest of its paragraph.
+ */
+export function renderMarkdown(markdown: string, options: MarkdownOptions = {}): React.ReactNode {
+	const pending = options.pending ?? false;
+	let lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+	if (pending && PARTIAL_MARKER.test(lines[lines.length - 1])) lines = lines.slice(0, -1);
+	const ctx: RenderContext = { components: options.components ?? {}, pending };
+	return renderBlocks(parseBlocks(lines), ctx, pending);
+}
+
+function parseBlocks(lines: string[]): Block[] {
+	const blocks: Block[] = [];
+	let i = 0;
+	while (i < lines.length) {
+		const line = lines[i];
+		if (!line.trim()) {
+			i += 1;
+			continue;
+		}
+		const fence = FENCE.exec(line);
+		if (fence) {
+			const marker = fence[1];
+			const body: string[] = [];
+			i += 1;
+			while (i < lines.length && !isClosingFence(lines[i], marker)) body.push(lines[i++]);
+			i += 1; // skip the closing fence (if any)
+			blocks.push({ type: 'code', lang: fence[2] ?? '', text: body.join('\n') });
+			continue;
+		}
+		const heading = HEADING.exec(line);
+		if (heading) {
+			const level = heading[1].length as 1 | 2 | 3 | 4 | 5 | 6;
+			blocks.push({ type: 'heading', level, text: (heading[2] ?? '').trim() });
+			i += 1;
+			continue;
+		}
+		if (HR.test(line)) {
+			blocks.push({ type: 'hr' });
+			i += 1;
+			continue;
+		}
+		if (QUOTE.test(line)) {
+			const body: string[] = [];
+			while (i < lines.length && QUOTE.test(lines[i])) body.push(QUOTE.exec(lines[i++])![1]);
+			blocks.push({ type: 'blockquote', children: parseBlocks(body) });
+			continue;
+		}
+		if (ITEM.test(line)) {
+			const { block, next } = parseList(lines, i);
+			blocks.push(block);
+			i = next;
+			continue;
+		}
+		const body: string[] = [];
+		while (i < lines.length && lines[i].trim() && !interruptsParagraph(lines[i])) body.push(lines[i++].trim());
+		blocks.push({ type: 'paragraph', text: body.join('\n') });
+	}
+	return blocks;
+}
+
+function parseList(lines: string[], start: number): { block: Block; next: number } {
+	const first = ITEM.exec(lines[start])!;
+	const ordered = /\d/.test(first[2]);
+	const delimiter = first[2].slice(-1);
+	const items: Block[][] = [];
+	let tight = true;
+	let i = start;
+	while (i < lines.length) {
+		const m = ITEM.exec(lines[i]);
+		if (!m || /\d/.test(m[2]) !== ordered || m[2].slice(-1) !== delimiter) break;
+		const contentIndent = m[1].length + m[2].length + 1;
+		const body = [m[3] ?? ''];
+		i += 1;
+		while (i < lines.length) {
+			const line = lines[i];
+			if (!line.trim()) {
+				// A blank line continues the item only if indented content follows
+				let j = i + 1;
+				while (j < lines.length && !lines[j].trim()) j += 1;
+				if (j < lines.length && indentOf(lines[j]) >= contentIndent) {
+					tight = false;
+					body.push(...lines.slice(i, j).map(() => ''));
+					i = j;
+					continue;
+				}
+				break;
+			}
+			if (indentOf(line) >= contentIndent) body.push(line.slice(contentIndent));
+			else if (ITEM.test(line) || interruptsParagraph(line)) break;
+			else body.push(line.trim()); // lazy continuation
+			i += 1;
+		}
+		items.push(parseBlocks(body));
+		// Blank lines between items make the list loose
+		if (i < lines.length && !lines[i].trim()) {
+			let j = i;
+			while (j < lines.length && !lines[j].trim()) j += 1;
+			const nextItem = j < lines.length ? ITEM.exec(lines[j]) : null;
+			if (!nextItem || /\d/.test(nextItem[2]) !== ordered) break;
+			tight = false;
+			i = j;
+		}
+	}
+	return { block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, tight, items }, next: i };
+}
+
+function interruptsParagraph(line: string): boolean {
+	if (FENCE.test(line) || HEADING.test(line) || HR.test(line) || QUOTE.test(line)) return true;
+	const item = ITEM.exec(line);
+	return Boolean(item && item[3]?.trim());
+}
+
+function isClosingFence(line: string, marker: string): boolean {
+	const trimmed = line.trim();
+	return trimmed.length >= marker.length && trimmed === trimmed[0].repeat(trimmed.length) && trimmed[0] === marker[0];
+}
+
+function indentOf(line: string): number {
+	return line.length - line.trimStart().length;
+}
+
+type RenderContext = { components: MarkdownComponents; pending: boolean };
+
+// Children are always passed as an array so a lone child keeps the same key
+// path once siblings follow it
+function h(ctx: RenderContext, type: MarkdownElement, props: Record<string, unknown>, children?: React.ReactNode[]) {
+	return React.createElement(ctx.components[type] ?? type, props, children);
+}
+
+// `edge` marks the block at the very end of the input while it is pending
+function renderBlocks(blocks: Block[], ctx: RenderContext, edge: boolean, tight = false): React.ReactNode[] {
+	const out: React.ReactNode[] = [];
+	blocks.forEach((block, index) => {
+		const atEdge = edge && index === blocks.length - 1;
+		const node = renderBlock(block, ctx, atEdge, tight, String(index));
+		if (node != null) out.push(node);
+	});
+	return out;
+}
+
+function renderBlock(block: Block, ctx: RenderContext, edge: boolean, tight: boolean, key: string): React.ReactNode {
+	switch (block.type) {
+		case 'heading': {
+			const children = renderInline(block.text, ctx, edge);
+			if (edge && children.length === 0) return null;
+			return h(ctx, `h${block.level}`, { key }, children);
+		}
+		case 'paragraph': {
+			const children = renderInline(block.text, ctx, edge);
+			if (edge && children.length === 0) return null;
+			if (tight) return React.createElement(React.Fragment, { key }, children);
+			return h(ctx, 'p', { key }, children);
+		}
+		case 'code': {
+			if (edge && !block.text) return null;
+			const className = block.lang ? `language-${block.lang}` : undefined;
+			return h(ctx, 'pre', { key }, [h(ctx, 'code', { key: 'code', className }, [block.text])]);
+		}
+		case 'blockquote': {
+			const children = renderBlocks(block.children, ctx, edge);
+			if (edge && children.length === 0) return null;
+			return h(ctx, 'blockquote', { key }, children);
+		}
+		case 'list': {
+			const items: React.ReactNode[] = [];
+			block.items.forEach((item, index) => {
+				const children = renderBlocks(item, ctx, edge && index === block.items.length - 1, block.tight);
+				if (children.length === 0 && edge) return;
+				items.push(h(ctx, 'li', { key: String(index) }, children));
+			});
+			if (edge && items.length === 0) return null;
+			const props = block.ordered && block.start !== 1 ? { key, start: block.start } : { key };
+			return h(ctx, block.ordered ? 'ol' : 'ul', props, items);
+		}
+		case 'hr':
+			return h(ctx, 'hr', { key });
+	}
+}
+
+/**
+ * Parse inline Markdown into React nodes. With `edge`, dangling delimiters at
+ * the end are dropped, unclosed emphasis runs to the end and an unfinished
+ * link/image is held back entirely; without it they stay literal text.
+ */
+function renderInline(src: string, ctx: RenderContext, edge: boolean): React.ReactNode[] {
+	const out: React.ReactNode[] = [];
+	let buf = '';
+	const push = (node: React.ReactElement) => {
+		if (buf) out.push(buf);
+		buf = '';
+		out.push(React.cloneElement(node, { key: String(out.length) }));
+	};
+	let i = 0;
+	while (i < src.length) {
+		const ch = src[i];
+		if (ch === '\\' && i + 1 < src.length && /[!-/:-@[-`{-~]/.test(src[i + 1])) {
+			buf += src[i + 1];
+			i += 2;
+			continue;
+		}
+		if (ch === '`') {
+			const run = runLength(src, i, ch);
+			if (i + run >= src.length) {
+				if (!edge) buf += src.slice(i);
+				break;
+			}
+			const close = src.indexOf(ch.repeat(run), i + run);
+			const end = close === -1 ? src.length : close;
+			push(h(ctx, 'code', {}, [src.slice(i + run, end)]));
+			i = close === -1 ? src.length : close + run;
+			continue;
+		}
+		if (ch === '*' || ch === '_' || ch === '~') {
+			const run = runLength(src, i, ch);
+			const after = src[i + run];
+			if (after === undefined) {
+				// Dangling delimiter at the end: may still open emphasis
+				if (!edge) buf += src.slice(i);
+				break;
+			}
+			const before = src[i - 1];
+			const size = ch === '~' ? 2 : Math.min(run, 2);
+			const canOpen =
+				!/\s/.test(after) && !(ch === '_' && before && /\w/.test(before)) && (ch !== '~' || run === 2);
+			if (!canOpen) {
+				buf += src.slice(i, i + run);
+				i += run;
+				continue;
+			}
+			const close = findCloser(src, i + size, ch, size);
+			if (close === -1 && !edge) {
+				// Never closed: a literal `*`, `_` or `~~` (only pending text may still close it)
+				buf += src.slice(i, i + size);
+				i += size;
+				continue;
+			}
+			const inner = src.slice(i + size, close === -1 ? src.length : close);
+			const type: MarkdownElement = ch === '~' ? 'del' : size === 2 ? 'strong' : 'em';
+			push(h(ctx, type, {}, renderInline(inner, ctx, edge && close === -1)));
+			i = close === -1 ? src.length : close + size;
+			continue;
+		}
+		if (ch === '[' || (ch === '!' && src[i + 1] === '[')) {
+			const open = ch === '!' ? i + 1 : i;
+			const link = parseLink(src, open);
+			if (link === 'incomplete' && edge) break; // hold back until the link is complete
+			if (link === 'incomplete' || link === null) {
+				buf += ch;
+				i += 1;
+				continue;
+			}
+			// Unsafe targets are dropped: an image leaves its alt text, a link its label
+			const href = safeUrl(link.href);
+			if (ch === '!') {
+				if (href === null) buf += link.label;
+				else push(h(ctx, 'img', { src: href, alt: link.label }));
+			} else if (href === null) {
+				for (const node of renderInline(link.label, ctx, false)) {
+					if (typeof node === 'string') buf += node;
+					else push(node as React.ReactElement);
+				}
+			} else push(h(ctx, 'a', { href }, renderInline(link.label, ctx, false)));
+			i = link.end;
+			continue;
+		}
+		buf += ch;
+		i += 1;
+	}
+	if (buf) out.push(buf);
+	return out;
+}
+
+function runLength(src: string, start: number, ch: string): number {
+	let n = 0;
+	while (src[start + n] === ch) n += 1;
+	return n;
+}
+
+// Find a closing delimiter run of `size` (not preceded by whitespace); a longer
+// run closes at its end, so `***x***` nests emphasis inside strong
+function findCloser(src: string, from: number, ch: string, size: number): number {
+	let j = from;
+	while (j < src.length) {
+		if (src[j] === '\\') {
+			j += 2;
+			continue;
+		}
+		if (src[j] !== ch) {
+			j += 1;
+			continue;
+		}
+		const run = runLength(src, j, ch);
+		const precededBySpace = j === from || /\s/.test(src[j - 1]);
+		const matches = size === 1 ? run === 1 || run >= 3 : run >= size;
+		if (matches && !precededBySpace) return j + run - size;
+		j += run;
+	}
+	return -1;
+}
+
+function parseLink(src: string, open: number): { label: string; href: string; end: number } | 'incomplete' | null {
+	let depth = 0;
+	let j = open;
+	for (; j < src.length; j++) {
+		if (src[j] === '\\') j += 1;
+		else if (src[j] === '[') depth += 1;
+		else if (src[j] === ']' && --depth === 0) break;
+	}
+	if (j >= src.length) return 'incomplete';
+	if (j + 1 >= src.length) return 'incomplete';
+	if (src[j + 1] !== '(') return null;
+	// Balanced parentheses belong to the destination, as in CommonMark
+	let close = j + 2;
+	for (let parens = 0; close < src.length; close++) {
+		if (src[close] === '\\') close += 1;
+		else if (src[close] === '(') parens += 1;
+		else if (src[close] === ')' && --parens < 0) break;
+	}
+	if (close >= src.length) return 'incomplete';
+	const target = src
+		.slice(j + 2, close)
+		.trim()
+		.split(/\s+/)[0];
+	return { label: src.slice(open + 1, j), href: target.replace(/^<|>$/g, ''), end: close + 1 };
+}
+
+const SAFE_PROTOCOLS = new Set(['http', 'https', 'mailto']);
+
+// Allow http(s), mailto and relative URLs. Browsers ignore whitespace and
+// control characters inside the scheme, so `java\tscript:` is checked as one.
+function safeUrl(url: string): string | null {
+	const scheme = /^([a-z][a-z\d+.-]*):/i.exec(url.replace(/[\u0000-\u0020\u007f]/g, ''));
+	if (scheme && !SAFE_PROTOCOLS.has(scheme[1].toLowerCase())) return null;
+	return url;
+}
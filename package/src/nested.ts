@@ -3,6 +3,23 @@ import React from 'react';
 /** Marker symbol placed on the component function to detect wrappers. */
 export const STREAMING_MARKER = Symbol.for('react-tree-stream/TreeStream');
 
+/** Marker symbol placed by markStreamable on custom stream unit components. */
+export const STREAM_UNIT_MARKER = Symbol.for('react-tree-stream/StreamUnit');
+
+// Check the function itself, .type for memo, and .render for forwardRef
+function hasMarker(el: React.ReactElement, marker: symbol): boolean {
+	const t = el.type as unknown as {
+		[marker]?: boolean;
+		type?: { [marker]?: boolean };
+		render?: { [marker]?: boolean };
+	};
+	return Boolean(
+		t?.[marker] ||
+			t?.type?.[marker] || // React.memo
+			t?.render?.[marker], // forwardRef
+	);
+}
+
 /**
  * isTreeStreamElement
  *
@@ -11,16 +28,24 @@ export const STREAMING_MARKER = Symbol.for('react-tree-stream/TreeStream');
  * and .render for forwardRef. As a fallback we also check displayName.
  */
 export function isTreeStreamElement(el: React.ReactElement): boolean {
-	const t = el.type as unknown as {
-		[STREAMING_MARKER]?: boolean;
-		type?: { [STREAMING_MARKER]?: boolean };
-		render?: { [STREAMING_MARKER]?: boolean };
-		displayName?: string;
-	};
-	return Boolean(
-		t?.[STREAMING_MARKER] ||
-			t?.type?.[STREAMING_MARKER] || // React.memo
-			t?.render?.[STREAMING_MARKER] || // forwardRef
-			t?.displayName === 'TreeStream',
-	);
+	return hasMarker(el, STREAMING_MARKER) || (el.type as { displayName?: string })?.displayName === 'TreeStream';
+}
+
+/**
+ * markStreamable
+ *
+ * Mark a component as a custom stream unit: a parent TreeStream reaching it
+ * sequences it like a nested TreeStream, and the component follows the
+ * parent's start/pause/finish signals and reports completion through
+ * `useStreamUnit()`. Works on plain, memo and forwardRef components, before
+ * or after wrapping. Returns the component itself.
+ */
+export function markStreamable<T extends React.ComponentType<never> | React.ExoticComponent<never>>(component: T): T {
+	(component as unknown as Record<symbol, boolean>)[STREAM_UNIT_MARKER] = true;
+	return component;
+}
+
+/** Detect an element of a component marked with markStreamable (see isTreeStreamElement). */
+export function isStreamUnitElement(el: React.ReactElement): boolean {
+	return hasMarker(el, STREAM_UNIT_MARKER);
 }
@@ -0,0 +1,90 @@
+/** The text unit being revealed, as seen by a pace function. */
+export interface PaceUnit {
+	/** Index of the text unit in the execution plan */
+	index: number;
+	/** Tokens of the unit still being streamed */
+	tokens: string[];
+	/** The component's `interval` (ms) */
+	interval: number;
+	/** The component's `speed` (tokens per tick) */
+	speed: number;
+}
+
+/** Timing of one tick. Omitted fields fall back to `interval` and `speed`. */
+export interface PaceStep {
+	/** Milliseconds to wait before revealing */
+	delay?: number;
+	/** Number of tokens to reveal (>= 1) */
+	count?: number;
+}
+
+/**
+ * Decide the timing of the next tick, which reveals tokens starting at
+ * `tokens[index]`. Called once per tick.
+ */
+export type PaceFunction = (token: string, index: number, unit: PaceUnit) => PaceStep;
+
+/** Built-in pacing presets. */
+export type PacePreset = 'natural';
+
+/** Value accepted by the `pace` prop. */
+export type Pace = PacePreset | PaceFunction;
+
+export interface NaturalPaceOptions {
+	/** Seed for the jitter RNG; the same seed gives the same timings. Random when omitted */
+	seed?: number;
+	/** Maximum relative deviation of each delay, between 0 and 1 (default: 0.35) */
+	jitter?: number;
+	/** Delay multiplier after sentence-ending punctuation (default: 6) */
+	sentencePause?: number;
+	/** Delay multiplier after commas, semicolons and colons (default: 2.5) */
+	clausePause?: number;
+	/** Delay multiplier after a line break (default: 4) */
+	newlinePause?: number;
+}
+
+/**
+ * createNaturalPace
+ *
+ * A pace function that reads like typing: longer pauses after sentences,
+ * clauses and line breaks, and a slight random jitter on every delay.
+ *
+ * Inputs:
+ * - options: see NaturalPaceOptions
+ *
+ * Outputs:
+ * - A PaceFunction. It keeps its RNG state, so create one per stream to get
+ *   reproducible timings from a seed.
+ */
+export function createNaturalPace(options: NaturalPaceOptions = {}): PaceFunction {
+	const { seed, jitter = 0.35, sentencePause = 6, clausePause = 2.5, newlinePause = 4 } = options;
+	const random = seed == null ? Math.random : createRandom(seed);
+	return (_token, index, unit) => {
+		let factor = 1;
+		// Pause according to the last revealed token
+		const previous = index > 0 ? unit.tokens[index - 1] : '';
+		if (/\n\s*$/.test(previous)) factor = newlinePause;
+		else if (/[.!?…。！？]['")\]」』]*\s*$/.test(previous)) factor = sentencePause;
+		else if (/[,;:、，；：]['")\]」』]*\s*$/.test(previous)) factor = clausePause;
+		const deviation = (random() * 2 - 1) * Math.min(1, Math.max(0, jitter));
+		return { delay: Math.round(unit.interval * factor * (1 + deviation)), count: unit.speed };
+	};
+}
+
+/** Resolve the `pace` prop into a pace function (a fresh one for presets). */
+export function resolvePace(pace: Pace | undefined): PaceFunction | undefined {
+	if (pace === 'natural') return createNaturalPace();
+	return typeof pace === 'function' ? pace : undefined;
+}
+
+// mulberry32: small, fast seedable PRNG returning numbers in [0, 1)
+function createRandom(seed: number): () => number {
+	let a = seed >>> 0;
+	return () => {
+		a = (a + 0x6d2b79f5) >>> 0;
+		let t = a;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
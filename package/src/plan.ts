@@ -1,17 +1,41 @@
 import React from 'react';
-import { isTreeStreamElement } from './nested';
+import { isStreamUnitElement, isTreeStreamElement } from './nested';
+
+/**
+ * A host element or component whose children were expanded by a deep plan.
+ * - element: the original element, cloned with truncated children on render
+ * - key: stable position-based key, unique among the element's siblings
+ */
+export type PlanFrame = { element: React.ReactElement; key: string };
 
 /**
  * Execution units produced from children to drive the streaming executor.
  * - text_stream: a text node that will be tokenized and streamed
  * - instant_render: any non-stream Tree element rendered immediately
- * - nested_stream: a nested TreeStream element coordinated by onComplete
+ * - nested_stream: a nested TreeStream element coordinated by onComplete, or
+ *   a custom unit marked with markStreamable
+ *
+ * Every unit has a `key` identifying its place in the tree, built from the
+ * React keys (or positions, for unkeyed children) of the unit and its
+ * ancestors. Units produced by a deep plan carry the chain of elements they
+ * were found in (outermost first) as `path`; shallow units have no path.
  */
-export type ExecutionUnit =
+export type ExecutionUnit = UnitBody & { key: string; path?: PlanFrame[] };
+
+type UnitBody =
 	| { type: 'text_stream'; content: string }
 	| { type: 'instant_render'; content: React.ReactElement }
 	| { type: 'nested_stream'; component: React.ReactElement };
 
+/**
+ * Options for buildPlan.
+ * - deep: descend into host elements and components with static children,
+ *   streaming their text instead of rendering them as instant units
+ */
+export interface PlanOptions {
+	deep?: boolean;
+}
+
 /**
  * buildPlan
  *
@@ -19,34 +43,73 @@ export type ExecutionUnit =
  *
  * Inputs:
  * - node: any React renderable input (string/number/elements/arrays/fragments)
+ * - options: see PlanOptions
  *
  * Outputs:
  * - Array of ExecutionUnit preserving in-order appearance from the tree
  *
  * Rules:
- * - Strings/numbers become text stream units (empty strings are skipped)
+ * - Strings/numbers become text stream units (blank strings are skipped)
  * - Fragments/arrays are flattened recursively
- * - Elements marked as TreeStream become nested stream units
+ * - Elements marked as TreeStream or with markStreamable become nested stream units
+ * - In deep mode, other elements are expanded into their children's units
+ *   (each tagged with the element in its path) when they yield any units
  * - All other elements are instant render units
  *
  * Notes/edge cases:
  * - null/undefined/boolean nodes are ignored
  * - For strings we keep original content (including whitespace), but empty
- *   strings after trim() are ignored to avoid no-op streaming units
+ *   strings after trim() are ignored to avoid no-op streaming units, except
+ *   for whitespace inside a deep-expanded element, where it separates inline
+ *   children (`<strong>a</strong> <em>b</em>`)
+ * - Deep mode never expands elements using dangerouslySetInnerHTML, render
+ *   prop children, or special React types (Suspense, Profiler, ...)
  */
-export function buildPlan(node: React.ReactNode): ExecutionUnit[] {
+export function buildPlan(node: React.ReactNode, options: PlanOptions = {}): ExecutionUnit[] {
+	return collectUnits(node, options, [], '0');
+}
+
+function collectUnits(node: React.ReactNode, options: PlanOptions, path: PlanFrame[], id: string): ExecutionUnit[] {
 	if (node == null || node === false || node === true) return [];
-	if (typeof node === 'string') return node.trim() ? [{ type: 'text_stream', content: node }] : [];
-	if (typeof node === 'number') return [{ type: 'text_stream', content: String(node) }];
-	if (Array.isArray(node)) return node.flatMap(buildPlan);
+	if (typeof node === 'string') {
+		// Inside an element, whitespace separates its inline children
+		return node.trim() || (node && path.length > 0)
+			? [place({ type: 'text_stream', content: node }, path, id)]
+			: [];
+	}
+	if (typeof node === 'number') return [place({ type: 'text_stream', content: String(node) }, path, id)];
+	if (Array.isArray(node)) {
+		return node.flatMap((child, i) => collectUnits(child, options, path, `${id}.${childId(child, i)}`));
+	}
 	if (React.isValidElement(node)) {
-		if (node.type === React.Fragment) return buildPlan(node.props?.children);
-		if (isTreeStreamElement(node)) return [{ type: 'nested_stream', component: node }];
-		return [{ type: 'instant_render', content: node }];
+		const props = node.props as { children?: React.ReactNode };
+		if (node.type === React.Fragment) return collectUnits(props.children, options, path, id);
+		if (isTreeStreamElement(node) || isStreamUnitElement(node)) {
+			return [place({ type: 'nested_stream', component: node }, path, id)];
+		}
+		if (options.deep && isExpandable(node)) {
+			const inner = collectUnits(props.children, options, [...path, { element: node, key: id }], `${id}.0`);
+			if (inner.length > 0) return inner;
+		}
+		return [place({ type: 'instant_render', content: node }, path, id)];
 	}
 	return [];
 }
 
+function place(unit: UnitBody, path: PlanFrame[], key: string): ExecutionUnit {
+	return path.length > 0 ? { ...unit, key, path } : { ...unit, key };
+}
+
+function childId(child: React.ReactNode, index: number): string {
+	return React.isValidElement(child) && child.key != null ? `k${child.key}` : String(index);
+}
+
+function isExpandable(el: React.ReactElement): boolean {
+	const props = el.props as { children?: unknown; dangerouslySetInnerHTML?: unknown };
+	if (props.children == null || props.dangerouslySetInnerHTML != null) return false;
+	return typeof el.type === 'string' || typeof el.type === 'function' || typeof el.type === 'object';
+}
+
 /**
  * planSignature
  *
@@ -56,18 +119,84 @@ export function buildPlan(node: React.ReactNode): ExecutionUnit[] {
  * Implementation detail:
  * - text_stream includes its content to re-run when text changes
  * - instant_render and nested_stream capture only their type (not identity)
+ * - units from a deep plan also capture the keys of their path, so moving
+ *   text into a different parent element re-runs the stream
  */
 export function planSignature(plan: ExecutionUnit[]): string {
-	return JSON.stringify(
-		plan.map((u) => {
-			switch (u.type) {
-				case 'text_stream':
-					return ['T', u.content];
-				case 'nested_stream':
-					return ['N'];
-				case 'instant_render':
-					return ['I'];
-			}
-		}),
-	);
+	return JSON.stringify(plan.map(unitSignatureWithPath));
+}
+
+/**
+ * planContinuation
+ *
+ * Decide whether `next` only extends `prev`, so a running stream can keep its
+ * position instead of starting over (e.g. an LLM response growing by tokens).
+ *
+ * Outputs:
+ * - null when earlier content diverges (the stream must reset)
+ * - otherwise { grown }, where grown is the index of the last previous unit
+ *   when it is a text unit whose content was extended, or null when units
+ *   were only appended after it
+ *
+ * Rules:
+ * - every previous unit must keep its signature, except the last one, which
+ *   may be a text unit (in the same path) whose content now starts with the
+ *   previous content
+ */
+export function planContinuation(prev: ExecutionUnit[], next: ExecutionUnit[]): { grown: number | null } | null {
+	if (next.length < prev.length) return null;
+	let grown: number | null = null;
+	for (let i = 0; i < prev.length; i++) {
+		const a = prev[i];
+		const b = next[i];
+		if (JSON.stringify(unitSignatureWithPath(a)) === JSON.stringify(unitSignatureWithPath(b))) continue;
+		const isLast = i === prev.length - 1;
+		if (
+			isLast &&
+			a.type === 'text_stream' &&
+			b.type === 'text_stream' &&
+			b.content.startsWith(a.content) &&
+			JSON.stringify(a.path?.map((f) => f.key)) === JSON.stringify(b.path?.map((f) => f.key))
+		) {
+			grown = i;
+			continue;
+		}
+		return null;
+	}
+	return { grown };
+}
+
+/**
+ * planMatches
+ *
+ * Match the units of `next` to those of `prev` by key, the way React matches
+ * children: a unit keeps its identity when it has the same key and type,
+ * wherever it moved in the plan.
+ *
+ * Outputs:
+ * - for every unit of `next`, the index of its match in `prev`, or null for
+ *   a new unit (units of `prev` without a match were removed)
+ */
+export function planMatches(prev: ExecutionUnit[], next: ExecutionUnit[]): (number | null)[] {
+	const byKey = new Map(prev.map((unit, index) => [unit.key, index]));
+	return next.map((unit) => {
+		const index = byKey.get(unit.key);
+		return index != null && prev[index].type === unit.type ? index : null;
+	});
+}
+
+function unitSignatureWithPath(u: ExecutionUnit): Array<string | string[]> {
+	const sig = unitSignature(u);
+	return u.path ? [...sig, u.path.map((f) => f.key)] : sig;
+}
+
+function unitSignature(u: ExecutionUnit): string[] {
+	switch (u.type) {
+		case 'text_stream':
+			return ['T', u.content];
+		case 'nested_stream':
+			return ['N'];
+		case 'instant_render':
+			return ['I'];
+	}
 }
@@ -0,0 +1,245 @@
+import React from 'react';
+import { planTokenCounts } from './duration';
+import { planSignature, type ExecutionUnit } from './plan';
+import { initialStreamState, type StreamState } from './reducer';
+import { tokenize, type StreamBy } from './tokenize';
+
+/**
+ * A serializable snapshot of how far a TreeStream has got, reported by
+ * `onProgress` and accepted by `initialProgress`.
+ * - unitIndex: units before this index have been fully revealed
+ * - tokenIndex: tokens revealed of the text unit at `unitIndex`
+ * - nested: progress of nested streams still running, by unit index
+ * - complete: the stream has completed
+ * - fraction: share of all tokens revealed (0 to 1), including nested streams
+ * - key: identifies the revealed content, so progress recorded for other
+ *   content is ignored; progress without a key is applied as is
+ */
+export interface StreamProgress {
+	unitIndex: number;
+	tokenIndex: number;
+	nested?: Record<number, StreamProgress>;
+	complete: boolean;
+	fraction?: number;
+	key?: string;
+}
+
+/**
+ * Reported by `onTick` after each text tick.
+ * - unitIndex: the text unit being revealed
+ * - revealed / total: tokens of the unit revealed so far and in total
+ * - text: the unit's text revealed so far
+ */
+export interface StreamTick {
+	unitIndex: number;
+	revealed: number;
+	total: number;
+	text: string;
+}
+
+/** Where streaming continues after restored progress. */
+export type ProgressResume = {
+	unitIndex: number;
+	revealed?: string;
+	nested?: Record<number, StreamProgress>;
+};
+
+export interface ProgressOptions {
+	streamBy?: StreamBy;
+	locale?: string;
+}
+
+export interface RestoreOptions extends ProgressOptions {
+	/** Prepare the nested stream at `index` that had completed for rendering with the given progress */
+	renderNested: (element: React.ReactElement, progress: StreamProgress, index: number) => React.ReactNode;
+}
+
+/** Progress of a stream restored as complete, whatever its content. */
+export const COMPLETE_PROGRESS: StreamProgress = { unitIndex: 0, tokenIndex: 0, complete: true, fraction: 1 };
+
+// FNV-1a; the key only needs to tell different content apart
+function hash(text: string): string {
+	let h = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		h ^= text.charCodeAt(i);
+		h = Math.imul(h, 0x01000193);
+	}
+	return (h >>> 0).toString(36);
+}
+
+// Covers the units before `unitIndex` and the text revealed of the unit at it
+function progressKey(plan: ExecutionUnit[], unitIndex: number, revealed = ''): string {
+	return `${unitIndex}:${hash(planSignature(plan.slice(0, unitIndex)) + revealed)}`;
+}
+
+export function countTokens(text: string, unitIndex: number, options: ProgressOptions): number {
+	if (!text) return 0;
+	return tokenize(text, options.streamBy, { unitIndex, revealed: '', locale: options.locale }).filter(Boolean).length;
+}
+
+/**
+ * planUnitWeights
+ *
+ * The number of tokens each unit of a plan reveals: its own tokens for text
+ * units, all tokens of nested streams (see planTokenCounts), none for
+ * instant units.
+ */
+export function planUnitWeights(plan: ExecutionUnit[], options: ProgressOptions): number[] {
+	return plan.map((unit, unitIndex) => {
+		if (unit.type === 'text_stream') return countTokens(unit.content, unitIndex, options);
+		if (unit.type === 'nested_stream') return planTokenCounts([unit], options).reduce((sum, n) => sum + n, 0);
+		return 0;
+	});
+}
+
+// Position of a stream: the unit reached and the tokens revealed of it
+function position(plan: ExecutionUnit[], state: StreamState, options: ProgressOptions) {
+	const unitIndex = state.complete ? plan.length : Math.min(state.unitIndex, plan.length);
+	const { text } = state;
+	const active = text.activeUnit === unitIndex && plan[unitIndex]?.type === 'text_stream';
+	const revealed = active ? text.prefix + text.tokens.slice(0, text.index).join('') : '';
+	const tokenIndex = active
+		? countTokens(text.prefix, unitIndex, options) + text.tokens.slice(0, text.index).filter(Boolean).length
+		: 0;
+	return { unitIndex, revealed, tokenIndex };
+}
+
+/**
+ * progressFraction
+ *
+ * Share of all tokens of a plan revealed so far (0 to 1). `weights` come
+ * from planUnitWeights; `nested` holds the latest progress reported by
+ * nested streams, whose own fraction counts towards their unit.
+ */
+export function progressFraction(
+	plan: ExecutionUnit[],
+	state: StreamState,
+	nested: Map<number, StreamProgress>,
+	weights: number[],
+	options: ProgressOptions,
+): number {
+	if (state.complete) return 1;
+	const { unitIndex, tokenIndex } = position(plan, state, options);
+	let done =
+		weights.slice(0, unitIndex).reduce((sum, n) => sum + n, 0) + Math.min(tokenIndex, weights[unitIndex] ?? 0);
+	nested.forEach((progress, index) => {
+		if (progress.complete || index >= plan.length) return;
+		// Nested streams before the position may still be running alongside it
+		const weight = weights[index] ?? 0;
+		const partial = (progress.fraction ?? 0) * weight;
+		if (index < unitIndex) done -= weight - partial;
+		else if (index === unitIndex) done += partial;
+	});
+	const total = weights.reduce((sum, n) => sum + n, 0);
+	return total > 0 ? Math.min(1, Math.max(0, done / total)) : 0;
+}
+
+/**
+ * captureProgress
+ *
+ * Snapshot the position of a stream. `nested` holds the latest progress
+ * reported by its nested streams; those that have completed are left out.
+ * `weights` (see planUnitWeights) turn the position into a fraction.
+ */
+export function captureProgress(
+	plan: ExecutionUnit[],
+	state: StreamState,
+	nested: Map<number, StreamProgress>,
+	weights: number[],
+	options: ProgressOptions,
+): StreamProgress {
+	const { unitIndex, revealed, tokenIndex } = position(plan, state, options);
+	const running: Record<number, StreamProgress> = {};
+	let hasRunning = false;
+	nested.forEach((progress, index) => {
+		if (progress.complete || index >= plan.length) return;
+		running[index] = progress;
+		hasRunning = true;
+	});
+	return {
+		unitIndex,
+		tokenIndex,
+		...(hasRunning ? { nested: running } : null),
+		complete: state.complete,
+		fraction: progressFraction(plan, state, nested, weights, options),
+		key: progressKey(plan, unitIndex, revealed),
+	};
+}
+
+/**
+ * restoreState
+ *
+ * Build the initial state for a stream resuming from `progress`: units
+ * before its position are revealed at once, as are the tokens already shown
+ * of the unit it stopped in. Progress for the whole (unchanged) plan
+ * restores a completed stream; when units were added since, streaming
+ * continues with them.
+ *
+ * Outputs:
+ * - null when the progress does not match the plan
+ * - state: the restored state (started only when complete)
+ * - resume: where streaming continues, or null for a completed stream
+ */
+export function restoreState(
+	plan: ExecutionUnit[],
+	progress: StreamProgress,
+	options: RestoreOptions,
+): { state: StreamState; resume: ProgressResume | null } | null {
+	const keyed = progress.key != null;
+	let unitIndex = keyed ? progress.unitIndex : progress.complete ? plan.length : progress.unitIndex;
+	if (!Number.isInteger(unitIndex) || unitIndex < 0 || unitIndex > plan.length) return null;
+
+	let revealed: string | undefined;
+	const unit = plan[unitIndex];
+	if (unit?.type === 'text_stream' && progress.tokenIndex > 0) {
+		const tokens = tokenize(unit.content, options.streamBy, {
+			unitIndex,
+			revealed: '',
+			locale: options.locale,
+		}).filter(Boolean);
+		revealed = tokens.slice(0, progress.tokenIndex).join('');
+	}
+	if (keyed && progress.key !== progressKey(plan, unitIndex, revealed)) return null;
+
+	const rendered = new Map<number, React.ReactNode>();
+	const nested = progress.nested ?? {};
+	for (let index = 0; index < unitIndex; index++) {
+		const unit = plan[index];
+		if (unit.type === 'nested_stream') {
+			// Nested streams still running are mounted again when streaming resumes
+			if (!nested[index]) rendered.set(index, options.renderNested(unit.component, COMPLETE_PROGRESS, index));
+		} else rendered.set(index, unit.content);
+	}
+
+	if (unit?.type === 'text_stream' && revealed != null) {
+		rendered.set(unitIndex, revealed);
+		if (revealed === unit.content) {
+			unitIndex += 1;
+			revealed = undefined;
+		}
+	}
+
+	if (progress.complete && unitIndex === plan.length) {
+		return { state: { ...initialStreamState, unitIndex, rendered, started: true, complete: true }, resume: null };
+	}
+	return { state: { ...initialStreamState, unitIndex, rendered }, resume: { unitIndex, revealed, nested } };
+}
+
+/** Read progress saved under `key` in sessionStorage, if any. */
+export function readStoredProgress(key: string): StreamProgress | null {
+	try {
+		const stored = typeof sessionStorage !== 'undefined' ? sessionStorage.getItem(key) : null;
+		return stored ? (JSON.parse(stored) as StreamProgress) : null;
+	} catch {
+		return null;
+	}
+}
+
+/** Save progress under `key` in sessionStorage; storage errors are ignored. */
+export function storeProgress(key: string, progress: StreamProgress): void {
+	try {
+		if (typeof sessionStorage !== 'undefined') sessionStorage.setItem(key, JSON.stringify(progress));
+	} catch {
+		// Storage may be full or unavailable (e.g. private browsing)
+	}
+}
@@ -3,34 +3,54 @@ import React from 'react';
 export interface StreamState {
 	unitIndex: number;
 	waitingNested: boolean;
+	/** Holding at an instant unit until its Suspense boundary resolves */
+	waitingSuspense: boolean;
 	rendered: Map<number, React.ReactNode>;
 	text: {
+		/** Already revealed content of the active unit that precedes `tokens` */
+		prefix: string;
 		tokens: string[];
 		index: number;
 		activeUnit: number | null;
 		streaming: boolean;
 	};
 	complete: boolean;
+	started: boolean;
+	paused: boolean;
+	/** Reached the end of the plan while more content is still expected */
+	awaitingMore: boolean;
 }
 
 export type StreamAction =
 	| { type: 'RESET' }
 	| { type: 'START' }
-	| { type: 'BEGIN_TEXT'; unitIndex: number; tokens: string[] }
+	| { type: 'PAUSE' }
+	| { type: 'RESUME' }
+	| { type: 'BEGIN_TEXT'; unitIndex: number; tokens: string[]; prefix?: string }
 	| { type: 'TEXT_TICK'; nextIndex: number; content: string }
 	| { type: 'END_TEXT' }
+	| { type: 'REVEAL_TEXT'; unitIndex: number; content: string }
 	| { type: 'ADVANCE' }
 	| { type: 'INSTANT_RENDER'; unitIndex: number; node: React.ReactNode }
 	| { type: 'NESTED_START'; unitIndex: number; node: React.ReactNode }
 	| { type: 'NESTED_DONE' }
-	| { type: 'COMPLETE' };
+	| { type: 'SUSPENSE_START'; unitIndex: number; node: React.ReactNode }
+	| { type: 'SUSPENSE_DONE' }
+	| { type: 'COMPLETE' }
+	| { type: 'AWAIT_MORE' }
+	| { type: 'REOPEN' }
+	| { type: 'RECONCILE'; unitIndex: number; rendered: Map<number, React.ReactNode> };
 
 export const initialStreamState: StreamState = {
 	unitIndex: 0,
 	waitingNested: false,
+	waitingSuspense: false,
 	rendered: new Map(),
-	text: { tokens: [], index: 0, activeUnit: null, streaming: false },
+	text: { prefix: '', tokens: [], index: 0, activeUnit: null, streaming: false },
 	complete: false,
+	started: false,
+	paused: false,
+	awaitingMore: false,
 };
 
 export function streamReducer(state: StreamState, action: StreamAction): StreamState {
@@ -38,13 +58,19 @@ export function streamReducer(state: StreamState, action: StreamAction): StreamS
 		case 'RESET':
 			return initialStreamState;
 		case 'START':
-			return { ...state };
+			return { ...state, started: true };
+		case 'PAUSE':
+			return { ...state, paused: true };
+		case 'RESUME':
+			return { ...state, paused: false };
 		case 'BEGIN_TEXT': {
 			const rendered = new Map(state.rendered);
 			if (!rendered.has(action.unitIndex)) rendered.set(action.unitIndex, '');
 			return {
 				...state,
+				unitIndex: action.unitIndex,
 				text: {
+					prefix: action.prefix ?? '',
 					tokens: action.tokens,
 					index: 0,
 					activeUnit: action.unitIndex,
@@ -62,6 +88,12 @@ export function streamReducer(state: StreamState, action: StreamAction): StreamS
 		case 'END_TEXT': {
 			return { ...state, text: { ...state.text, streaming: false } };
 		}
+		case 'REVEAL_TEXT': {
+			// Render a text unit in full at once (used when finishing early)
+			const rendered = new Map(state.rendered);
+			rendered.set(action.unitIndex, action.content);
+			return { ...state, unitIndex: action.unitIndex, text: { ...state.text, streaming: false }, rendered };
+		}
 		case 'ADVANCE': {
 			return { ...state, unitIndex: state.unitIndex + 1 };
 		}
@@ -78,7 +110,32 @@ export function streamReducer(state: StreamState, action: StreamAction): StreamS
 		case 'NESTED_DONE': {
 			return { ...state, waitingNested: false };
 		}
+		case 'SUSPENSE_START': {
+			const rendered = new Map(state.rendered);
+			rendered.set(action.unitIndex, action.node);
+			return { ...state, waitingSuspense: true, rendered };
+		}
+		case 'SUSPENSE_DONE': {
+			return { ...state, waitingSuspense: false };
+		}
 		case 'COMPLETE':
-			return { ...state, complete: true };
+			return { ...state, complete: true, awaitingMore: false };
+		case 'AWAIT_MORE':
+			return { ...state, awaitingMore: true };
+		case 'REOPEN':
+			// More content was appended after completion (or while awaiting it)
+			return { ...state, complete: false, awaitingMore: false };
+		case 'RECONCILE':
+			// The plan changed: keep what is still revealed (re-indexed) and run again from `unitIndex`
+			return {
+				...state,
+				unitIndex: action.unitIndex,
+				rendered: action.rendered,
+				text: initialStreamState.text,
+				waitingNested: false,
+				waitingSuspense: false,
+				complete: false,
+				awaitingMore: false,
+			};
 	}
 }
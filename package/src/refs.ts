@@ -0,0 +1,7 @@
+import type React from 'react';
+
+/** Assign a value to a callback or object ref. */
+export function assignRef<T>(ref: React.Ref<T> | undefined, value: T | null) {
+	if (typeof ref === 'function') ref(value);
+	else if (ref) (ref as React.MutableRefObject<T | null>).current = value;
+}
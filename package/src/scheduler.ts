@@ -0,0 +1,161 @@
+import { createContext, startTransition } from 'react';
+
+/**
+ * Runs the delayed work of a TreeStream (text ticks and unit transitions).
+ * `schedule` returns a function that cancels the task if it has not run yet.
+ */
+export interface Scheduler {
+	schedule(fn: () => void, delay: number): () => void;
+}
+
+/**
+ * createTimeoutScheduler
+ *
+ * One setTimeout per task. This is the default scheduler.
+ */
+export function createTimeoutScheduler(): Scheduler {
+	return {
+		schedule(fn, delay) {
+			const t = setTimeout(fn, Math.max(0, delay));
+			return () => clearTimeout(t);
+		},
+	};
+}
+
+/**
+ * createFrameScheduler
+ *
+ * Runs tasks on animation frames from a single shared requestAnimationFrame
+ * loop: every task due by a frame runs in that frame, so many concurrent
+ * streams update together instead of each keeping its own timer chain.
+ * Delays are rounded up to the next frame. Falls back to ~60fps timeouts
+ * where requestAnimationFrame is unavailable.
+ */
+export function createFrameScheduler(): Scheduler {
+	type Task = { fn: () => void; due: number };
+	const tasks = new Set<Task>();
+	let requested = false;
+
+	const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+	const request = (cb: (time: number) => void) => {
+		if (typeof requestAnimationFrame === 'function') requestAnimationFrame(cb);
+		else setTimeout(() => cb(now()), 16);
+	};
+	const frame = (time: number) => {
+		requested = false;
+		for (const task of Array.from(tasks)) {
+			if (task.due > time) continue;
+			tasks.delete(task);
+			task.fn();
+		}
+		if (tasks.size > 0 && !requested) {
+			requested = true;
+			request(frame);
+		}
+	};
+
+	return {
+		schedule(fn, delay) {
+			const task: Task = { fn, due: now() + Math.max(0, delay) };
+			tasks.add(task);
+			if (!requested) {
+				requested = true;
+				request(frame);
+			}
+			return () => {
+				tasks.delete(task);
+			};
+		},
+	};
+}
+
+/** A scheduler driven by hand, for tests and deterministic screenshots. */
+export interface VirtualClock extends Scheduler {
+	/** Current virtual time in ms */
+	now(): number;
+	/** Number of tasks waiting to run */
+	pending(): number;
+	/** Move time forward, running every task that falls due, in order */
+	advance(ms: number): void;
+	/** Run tasks until none are left (or `limit` tasks ran); returns the count run */
+	runAll(limit?: number): number;
+}
+
+export interface VirtualClockOptions {
+	/**
+	 * Runs each task, e.g. React's `act` in tests or `flushSync` in stories.
+	 * TreeStream schedules its next tick from an effect, so a wrapper that
+	 * commits the update lets `advance` run a whole sequence in one call.
+	 */
+	run?: (task: () => void) => void;
+}
+
+/**
+ * createVirtualClock
+ *
+ * A Scheduler whose time only moves when `advance` or `runAll` is called.
+ * Tasks scheduled while advancing run in the same call if they fall due.
+ */
+export function createVirtualClock(options: VirtualClockOptions = {}): VirtualClock {
+	const wrap = options.run ?? ((task: () => void) => task());
+	type Task = { fn: () => void; due: number; seq: number };
+	let time = 0;
+	let seq = 0;
+	const tasks = new Set<Task>();
+
+	const next = () => {
+		let first: Task | undefined;
+		for (const task of tasks) {
+			if (!first || task.due < first.due || (task.due === first.due && task.seq < first.seq)) first = task;
+		}
+		return first;
+	};
+	const run = (task: Task) => {
+		tasks.delete(task);
+		time = Math.max(time, task.due);
+		wrap(task.fn);
+	};
+
+	return {
+		schedule(fn, delay) {
+			const task: Task = { fn, due: time + Math.max(0, delay), seq: seq++ };
+			tasks.add(task);
+			return () => {
+				tasks.delete(task);
+			};
+		},
+		now: () => time,
+		pending: () => tasks.size,
+		advance(ms) {
+			const target = time + Math.max(0, ms);
+			for (let task = next(); task && task.due <= target; task = next()) run(task);
+			time = target;
+		},
+		runAll(limit = 10000) {
+			let count = 0;
+			for (let task = next(); task && count < limit; task = next(), count++) run(task);
+			return count;
+		},
+	};
+}
+
+/**
+ * withTransition
+ *
+ * Wrap a scheduler so each task's state updates are dispatched inside
+ * React's startTransition, keeping input responsive while heavy streams render.
+ */
+export function withTransition(scheduler: Scheduler = defaultScheduler): Scheduler {
+	return {
+		schedule: (fn, delay) => scheduler.schedule(() => startTransition(fn), delay),
+	};
+}
+
+/** The scheduler used when none is provided by prop or context. */
+export const defaultScheduler: Scheduler = createTimeoutScheduler();
+
+/**
+ * Provides the scheduler for every TreeStream below it, unless a stream sets
+ * its own `scheduler` prop.
+ */
+export const SchedulerContext = createContext<Scheduler>(defaultScheduler);
@@ -0,0 +1,69 @@
+import { useEffect, useRef, type RefObject } from 'react';
+
+/**
+ * A custom skip trigger: subscribe to anything and call `skip` to reveal the
+ * rest of the stream. May return a cleanup function.
+ */
+export type SkipTrigger = (skip: () => void) => void | (() => void);
+
+/**
+ * What skips a running stream to its end:
+ * - 'click': a click on the wrapper element (or anything inside it)
+ * - 'keydown': a key press anywhere on the page, except Tab, modifier keys,
+ *   shortcuts and typing in form fields
+ * - 'both': either of them
+ * - function: a custom SkipTrigger
+ */
+export type SkipOn = 'click' | 'keydown' | 'both' | SkipTrigger;
+
+const IGNORED_KEYS = new Set(['Tab', 'Shift', 'Control', 'Alt', 'Meta', 'CapsLock']);
+
+function isSkipKey(event: KeyboardEvent): boolean {
+	if (event.repeat || event.ctrlKey || event.metaKey || event.altKey || IGNORED_KEYS.has(event.key)) return false;
+	const target = event.target as HTMLElement | null;
+	return !target?.closest?.('input, textarea, select, [contenteditable=""], [contenteditable="true"]');
+}
+
+/**
+ * useSkipOn
+ *
+ * Call `skip` when the `skipOn` trigger fires while `active`. Click listeners
+ * go on the element in `target`; keydown listeners on the document. A custom
+ * trigger is subscribed once per activation, not on every render.
+ */
+export function useSkipOn(
+	skipOn: SkipOn | undefined,
+	active: boolean,
+	skip: () => void,
+	target: RefObject<Element | null>,
+) {
+	const skipRef = useRef(skip);
+	skipRef.current = skip;
+	const triggerRef = useRef(skipOn);
+	triggerRef.current = skipOn;
+	const mode = typeof skipOn === 'function' ? 'custom' : skipOn;
+
+	useEffect(() => {
+		if (!mode || !active) return;
+		const run = () => skipRef.current();
+		const trigger = triggerRef.current;
+		if (typeof trigger === 'function') return trigger(run) ?? undefined;
+
+		const cleanups: (() => void)[] = [];
+		const el = target.current;
+		if ((mode === 'click' || mode === 'both') && el) {
+			el.addEventListener('click', run);
+			cleanups.push(() => el.removeEventListener('click', run));
+		}
+		if ((mode === 'keydown' || mode === 'both') && typeof document !== 'undefined') {
+			const onKeyDown = (event: KeyboardEvent) => {
+				if (isSkipKey(event)) run();
+			};
+			document.addEventListener('keydown', onKeyDown);
+			cleanups.push(() => document.removeEventListener('keydown', onKeyDown));
+		}
+		return () => {
+			for (const cleanup of cleanups) cleanup();
+		};
+	}, [mode, active, target]);
+}
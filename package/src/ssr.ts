@@ -0,0 +1,96 @@
+import React, { useEffect, useLayoutEffect, useSyncExternalStore } from 'react';
+import type { ExecutionUnit } from './plan';
+import { initialStreamState, type StreamState } from './reducer';
+import { tokenize, type StreamBy } from './tokenize';
+
+/**
+ * Server rendering strategy.
+ * - 'empty': render an empty wrapper on the server and stream on the client
+ * - 'static': render the content (or `ssrPrefix`) on the server; after
+ *   hydration it stays as is and streaming continues after it
+ * - 'replay': render the content on the server; after hydration the stream
+ *   replays from the start while the wrapper keeps its server-rendered height
+ */
+export type SsrMode = 'empty' | 'static' | 'replay';
+
+/** Where streaming continues after server-rendered content. */
+export type SsrResume = { unitIndex: number; revealed?: string };
+
+export interface PrerenderOptions {
+	/** Maximum number of text tokens to render; everything when omitted */
+	prefix?: number;
+	streamBy?: StreamBy;
+	locale?: string;
+	/** Prepare the nested stream element at `index` for full rendering */
+	renderNested: (element: React.ReactElement, index: number) => React.ReactNode;
+}
+
+/**
+ * prerenderState
+ *
+ * Build the initial stream state for server rendering and hydration: units
+ * are revealed in order until `prefix` tokens have been rendered. Without a
+ * prefix, nested streams are rendered too (with their own SSR handling);
+ * with one, the prefix stops at the first nested stream.
+ *
+ * Outputs:
+ * - state: a not yet started state holding the revealed units
+ * - resume: where streaming continues on the client
+ */
+export function prerenderState(
+	plan: ExecutionUnit[],
+	options: PrerenderOptions,
+): { state: StreamState; resume: SsrResume } {
+	const rendered = new Map<number, React.ReactNode>();
+	let remaining = options.prefix ?? Infinity;
+	let resume: SsrResume = { unitIndex: plan.length };
+	for (let index = 0; index < plan.length; index++) {
+		const unit = plan[index];
+		if (unit.type === 'instant_render') {
+			rendered.set(index, unit.content);
+			continue;
+		}
+		if (unit.type === 'nested_stream') {
+			if (options.prefix != null) {
+				resume = { unitIndex: index };
+				break;
+			}
+			rendered.set(index, options.renderNested(unit.component, index));
+			continue;
+		}
+		const tokens = tokenize(unit.content, options.streamBy, {
+			unitIndex: index,
+			revealed: '',
+			locale: options.locale,
+		});
+		if (tokens.length <= remaining) {
+			rendered.set(index, unit.content);
+			remaining -= tokens.length;
+			continue;
+		}
+		const revealed = tokens.slice(0, remaining).join('');
+		if (revealed) rendered.set(index, revealed);
+		resume = { unitIndex: index, revealed };
+		break;
+	}
+	return { state: { ...initialStreamState, unitIndex: resume.unitIndex, rendered }, resume };
+}
+
+const subscribeNothing = () => () => {};
+
+/**
+ * useIsHydrating
+ *
+ * True while rendering on the server or hydrating server markup, false for
+ * a client-only render. Only meaningful during the first render.
+ */
+export function useIsHydrating(): boolean {
+	return useSyncExternalStore(
+		subscribeNothing,
+		() => false,
+		() => true,
+	);
+}
+
+/** useLayoutEffect on the client, useEffect on the server (avoids SSR warnings). */
+export const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect;
@@ -0,0 +1,149 @@
+'use client';
+
+import React, {
+	createContext,
+	forwardRef,
+	useCallback,
+	useContext,
+	useImperativeHandle,
+	useMemo,
+	useRef,
+	useState,
+} from 'react';
+import { isTreeStreamElement } from './nested';
+import { COMPLETE_PROGRESS, type StreamProgress } from './progress';
+import { useReducedMotion, type ReducedMotion } from './useReducedMotion';
+import type { TreeStreamHandle } from './useTreeStream';
+
+/**
+ * The signals a custom stream unit (see markStreamable) receives from the
+ * TreeStream sequencing it.
+ * - started: the parent has reached the unit; begin animating
+ * - paused: hold the animation where it is
+ * - finishing: jump to the end state (finish(), reduced motion, restored
+ *   progress) and call complete()
+ * - complete: report that the unit is done so the parent moves on; calls
+ *   after the first are ignored
+ */
+export interface StreamUnit {
+	started: boolean;
+	paused: boolean;
+	finishing: boolean;
+	complete(): void;
+}
+
+// Outside a TreeStream a unit runs on its own
+const STANDALONE: StreamUnit = { started: true, paused: false, finishing: false, complete: () => {} };
+
+const StreamUnitContext = createContext<StreamUnit | null>(null);
+
+/**
+ * useStreamUnit
+ *
+ * Read the signals of the TreeStream sequencing this component. The component
+ * must be marked with markStreamable for the parent to wait for it.
+ *
+ * @example
+ * ```tsx
+ * const CountUp = markStreamable(function CountUp({ to }: { to: number }) {
+ *   const unit = useStreamUnit();
+ *   const value = useCountUp(to, { running: unit.started && !unit.paused, skip: unit.finishing });
+ *   useEffect(() => {
+ *     if (value === to) unit.complete();
+ *   }, [value, to, unit]);
+ *   return <span>{value}</span>;
+ * });
+ * ```
+ */
+export function useStreamUnit(): StreamUnit {
+	return useContext(StreamUnitContext) ?? STANDALONE;
+}
+
+type StreamUnitHostProps = {
+	children: React.ReactElement;
+	autoStart?: boolean;
+	onComplete?: () => void;
+	onProgress?: (progress: StreamProgress) => void;
+	reducedMotion?: ReducedMotion;
+	initialProgress?: StreamProgress | null;
+};
+
+// Provides the signals to a custom unit and exposes the same handle as a
+// nested TreeStream, so the parent controls both alike
+const StreamUnitHost = forwardRef<TreeStreamHandle, StreamUnitHostProps>(function StreamUnitHost(
+	{ children, autoStart = true, onComplete, onProgress, reducedMotion = 'user', initialProgress },
+	ref,
+) {
+	// Restored complete units render their end state without reporting again
+	const restored = initialProgress?.complete === true;
+	const [run, setRun] = useState({ id: 0, started: autoStart || restored, paused: false, finishing: restored });
+	const doneRef = useRef(restored);
+	const callbacksRef = useRef({ onComplete, onProgress });
+	callbacksRef.current = { onComplete, onProgress };
+	const reduced = useReducedMotion(reducedMotion);
+
+	const complete = useCallback(() => {
+		if (doneRef.current) return;
+		doneRef.current = true;
+		callbacksRef.current.onProgress?.(COMPLETE_PROGRESS);
+		callbacksRef.current.onComplete?.();
+	}, []);
+
+	useImperativeHandle(
+		ref,
+		() => ({
+			start: () => setRun((r) => (r.started ? r : { ...r, started: true })),
+			pause: () => setRun((r) => (doneRef.current ? r : { ...r, paused: true })),
+			resume: () => setRun((r) => ({ ...r, paused: false })),
+			finish: () => {
+				if (!doneRef.current) setRun((r) => ({ ...r, started: true, paused: false, finishing: true }));
+			},
+			restart: () => {
+				doneRef.current = false;
+				// A new key remounts the unit from its initial state
+				setRun((r) => ({ id: r.id + 1, started: true, paused: false, finishing: false }));
+			},
+		}),
+		[],
+	);
+
+	const unit = useMemo(
+		() => ({ started: run.started, paused: run.paused, finishing: run.finishing || reduced, complete }),
+		[run.started, run.paused, run.finishing, reduced, complete],
+	);
+	return (
+		<StreamUnitContext.Provider value={unit}>
+			<React.Fragment key={run.id}>{children}</React.Fragment>
+		</StreamUnitContext.Provider>
+	);
+});
+
+/**
+ * cloneNestedStream
+ *
+ * Pass the props a parent stream coordinates a nested unit with: nested
+ * TreeStreams are cloned with them, custom units (see markStreamable) are
+ * wrapped in a host reading the ones that apply to them and providing the
+ * signals to useStreamUnit.
+ */
+export function cloneNestedStream(
+	element: React.ReactElement,
+	props: Record<string, unknown> & { ref?: React.Ref<TreeStreamHandle> },
+): React.ReactElement {
+	if (isTreeStreamElement(element)) return React.cloneElement(element, props);
+	const { ref, autoStart, onComplete, onProgress, reducedMotion, initialProgress } = props as StreamUnitHostProps & {
+		ref?: React.Ref<TreeStreamHandle>;
+	};
+	return (
+		<StreamUnitHost
+			ref={ref}
+			autoStart={autoStart}
+			onComplete={onComplete}
+			onProgress={onProgress}
+			reducedMotion={reducedMotion}
+			initialProgress={initialProgress}
+		>
+			{element}
+		</StreamUnitHost>
+	);
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import React, { Suspense, useEffect, useRef } from 'react';
+
+/**
+ * How instant units are held while they suspend.
+ * - fallback: rendered in place of a unit until it resolves
+ * - timeout: ms after which the stream moves on without the unit; it still
+ *   appears in place once it resolves
+ */
+export interface SuspenseOptions {
+	fallback?: React.ReactNode;
+	timeout?: number;
+}
+
+/** `true` for the default options (no fallback, no timeout), or SuspenseOptions. */
+export type SuspenseUnits = boolean | SuspenseOptions;
+
+export function resolveSuspense(suspense: SuspenseUnits | undefined): SuspenseOptions | null {
+	if (!suspense) return null;
+	return suspense === true ? {} : suspense;
+}
+
+// Rendered after the unit inside the boundary: its effect only runs once the
+// whole boundary has committed, i.e. nothing in it is suspended anymore
+function Resolved({ onResolve }: { onResolve: () => void }) {
+	const onResolveRef = useRef(onResolve);
+	onResolveRef.current = onResolve;
+	useEffect(() => onResolveRef.current(), []);
+	return null;
+}
+
+/**
+ * SuspendedUnit
+ *
+ * Wrap an instant unit in its own Suspense boundary and report when it has
+ * rendered without suspending, so the stream can hold its position until then.
+ */
+export function SuspendedUnit({
+	fallback = null,
+	onResolve,
+	children,
+}: {
+	fallback?: React.ReactNode;
+	onResolve: () => void;
+	children?: React.ReactNode;
+}) {
+	return (
+		<Suspense fallback={fallback}>
+			{children}
+			<Resolved onResolve={onResolve} />
+		</Suspense>
+	);
+}
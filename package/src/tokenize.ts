@@ -0,0 +1,140 @@
+/** Context passed to a tokenizer for each text unit it splits. */
+export interface TokenizerContext {
+	/** Index of the text unit in the execution plan */
+	unitIndex: number;
+	/** Text of the unit already revealed before `text` (non-empty when grown text continues) */
+	revealed: string;
+	/** BCP 47 locale used for word and grapheme segmentation (runtime default when omitted) */
+	locale?: string;
+}
+
+/**
+ * A custom tokenization strategy. The returned tokens must concatenate back to
+ * `text`; each token counts as one unit of `speed`.
+ */
+export type Tokenizer = (text: string, context: TokenizerContext) => string[];
+
+/** Built-in tokenization strategies. */
+export type StreamByStrategy = 'word' | 'character' | 'sentence' | 'line' | 'paragraph';
+
+/** Value accepted by the `streamBy` prop. */
+export type StreamBy = StreamByStrategy | Tokenizer;
+
+/**
+ * Built-in tokenizers. Whitespace is kept with the preceding token (or, for
+ * 'word', as separate tokens) so that joining the tokens yields the input.
+ * 'word' segments runs of scripts written without spaces (CJK, Thai, ...) into
+ * words, and 'character' never splits a grapheme (emoji, combining marks).
+ */
+export const tokenizers: Record<StreamByStrategy, Tokenizer> = {
+	word: (text, context) => text.split(/(\s+)/).flatMap((chunk) => segmentWords(chunk, context.locale)),
+	character: (text, context) => segmentGraphemes(text, context.locale),
+	// Break after terminal punctuation (and closing quotes/brackets) followed by
+	// whitespace, and after line breaks
+	sentence: (text) => splitAfter(text, /[.!?]['")\]]*\s+(?=\S)|\n\s*(?=\S)/g),
+	line: (text) => splitAfter(text, /\n(?=[^])/g),
+	paragraph: (text) => splitAfter(text, /\n[ \t]*\n\s*(?=\S)/g),
+};
+
+// Split after every match of a global `boundary`, keeping the matched text
+// with the preceding token. Stands in for splitting on a lookbehind, which
+// older Safari versions cannot even parse.
+function splitAfter(text: string, boundary: RegExp): string[] {
+	const tokens: string[] = [];
+	let start = 0;
+	for (let match = boundary.exec(text); match; match = boundary.exec(text)) {
+		const end = match.index + match[0].length;
+		tokens.push(text.slice(start, end));
+		start = end;
+	}
+	tokens.push(text.slice(start));
+	return tokens;
+}
+
+/**
+ * tokenize
+ *
+ * Split text into the tokens revealed by a text unit.
+ *
+ * Inputs:
+ * - text: the text still to be revealed
+ * - streamBy: a built-in strategy name or a custom Tokenizer
+ * - context: unit information forwarded to custom tokenizers
+ *
+ * Outputs:
+ * - The tokens, in order
+ */
+export function tokenize(
+	text: string,
+	streamBy: StreamBy = 'word',
+	context: TokenizerContext = { unitIndex: 0, revealed: '' },
+): string[] {
+	const tokenizer = typeof streamBy === 'function' ? streamBy : tokenizers[streamBy] ?? tokenizers.word;
+	return tokenizer(text, context);
+}
+
+// Minimal typing for Intl.Segmenter, which is not part of the ES2020 lib
+type Segment = { segment: string; isWordLike?: boolean };
+type Segmenter = { segment(text: string): Iterable<Segment> };
+type SegmenterConstructor = new (
+	locale: string | undefined,
+	options: { granularity: 'grapheme' | 'word' },
+) => Segmenter;
+
+const segmenters = new Map<string, Segmenter | null>();
+
+function getSegmenter(granularity: 'grapheme' | 'word', locale: string | undefined): Segmenter | null {
+	const cacheKey = `${granularity}:${locale ?? ''}`;
+	let segmenter = segmenters.get(cacheKey);
+	if (segmenter === undefined) {
+		const Ctor = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+		try {
+			segmenter = Ctor ? new Ctor(locale, { granularity }) : null;
+		} catch {
+			// Invalid locale: fall back to the runtime default
+			segmenter = Ctor ? new Ctor(undefined, { granularity }) : null;
+		}
+		segmenters.set(cacheKey, segmenter);
+	}
+	return segmenter;
+}
+
+// Scripts that do not separate words with spaces
+const UNSPACED_SCRIPT =
+	/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+// Fallback grapheme approximation: a base character with its combining marks,
+// joined by ZWJ or followed by variation selectors/emoji modifiers
+const CLUSTER =
+	/(?:\p{RI}\p{RI}|\P{M}(?:\p{M}|\uFE0F|\p{Emoji_Modifier})*(?:\u200D\P{M}(?:\p{M}|\uFE0F|\p{Emoji_Modifier})*)*)|\p{M}+/gsu;
+
+function segmentGraphemes(text: string, locale: string | undefined): string[] {
+	const segmenter = getSegmenter('grapheme', locale);
+	if (segmenter) return Array.from(segmenter.segment(text), (s) => s.segment);
+	return text.match(CLUSTER) ?? [];
+}
+
+/**
+ * Split a whitespace-free chunk into words. Chunks in spaced scripts are kept
+ * whole; punctuation is attached to the neighbouring word.
+ */
+function segmentWords(chunk: string, locale: string | undefined): string[] {
+	if (!UNSPACED_SCRIPT.test(chunk)) return [chunk];
+	const segmenter = getSegmenter('word', locale);
+	// Without Intl.Segmenter there is no dictionary for word breaks, so each
+	// grapheme of an unspaced script becomes its own word
+	const segments: Segment[] = segmenter
+		? Array.from(segmenter.segment(chunk))
+		: segmentGraphemes(chunk, locale).map((segment) => ({ segment, isWordLike: /[\p{L}\p{N}]/u.test(segment) }));
+	const words: string[] = [];
+	let lead = '';
+	for (const { segment, isWordLike } of segments) {
+		if (isWordLike === false && words.length > 0) words[words.length - 1] += segment;
+		else if (isWordLike === false) lead += segment;
+		else {
+			words.push(lead + segment);
+			lead = '';
+		}
+	}
+	if (lead) words.push(lead);
+	return words;
+}
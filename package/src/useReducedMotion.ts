@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+
+/** Value accepted by the `reducedMotion` prop. */
+export type ReducedMotion = 'user' | 'always' | 'never';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+function getQuery(): MediaQueryList | null {
+	if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return null;
+	return window.matchMedia(QUERY);
+}
+
+/**
+ * usePrefersReducedMotion
+ *
+ * Track the `prefers-reduced-motion` media query. Reports false where
+ * matchMedia is unavailable (e.g. on the server).
+ */
+export function usePrefersReducedMotion(): boolean {
+	const [prefers, setPrefers] = useState(() => getQuery()?.matches ?? false);
+
+	useEffect(() => {
+		const query = getQuery();
+		if (!query) return;
+		const onChange = () => setPrefers(query.matches);
+		onChange();
+		// Safari < 14 only supports the deprecated listener API
+		if (typeof query.addEventListener === 'function') {
+			query.addEventListener('change', onChange);
+			return () => query.removeEventListener('change', onChange);
+		}
+		query.addListener(onChange);
+		return () => query.removeListener(onChange);
+	}, []);
+
+	return prefers;
+}
+
+/**
+ * useReducedMotion
+ *
+ * Resolve the `reducedMotion` prop: 'user' follows the media query, 'always'
+ * and 'never' force animations off or on.
+ */
+export function useReducedMotion(mode: ReducedMotion): boolean {
+	const prefers = usePrefersReducedMotion();
+	return mode === 'always' || (mode === 'user' && prefers);
+}
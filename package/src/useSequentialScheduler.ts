@@ -1,20 +1,24 @@
 import { useCallback, useEffect, useRef } from 'react';
+import { defaultScheduler, type Scheduler } from './scheduler';
 
 /**
  * useSequentialScheduler
  *
- * Centralizes setTimeout scheduling with guarantees:
+ * Centralizes task scheduling with guarantees:
  * - Only callbacks scheduled in the latest run execute (run-token guard)
- * - All timers are cleared on unmount
- * - cancelAll() clears any pending timers for the current run
+ * - All pending tasks are cancelled on unmount
+ * - cancelAll() cancels any pending tasks for the current run
+ * Tasks are delegated to `scheduler` (setTimeout by default).
  */
-export function useSequentialScheduler() {
+export function useSequentialScheduler(scheduler: Scheduler = defaultScheduler) {
 	const runIdRef = useRef(0);
-	const timersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+	const cancelsRef = useRef<(() => void)[]>([]);
+	const schedulerRef = useRef(scheduler);
+	schedulerRef.current = scheduler;
 
 	const cancelAll = useCallback(() => {
-		for (const t of timersRef.current) clearTimeout(t);
-		timersRef.current = [];
+		for (const cancel of cancelsRef.current) cancel();
+		cancelsRef.current = [];
 	}, []);
 
 	const nextRunToken = useCallback(() => {
@@ -25,11 +29,12 @@ export function useSequentialScheduler() {
 
 	const schedule = useCallback((fn: () => void, delay = 0) => {
 		const token = runIdRef.current;
-		const t = setTimeout(() => {
+		const cancel = schedulerRef.current.schedule(() => {
+			cancelsRef.current = cancelsRef.current.filter((c) => c !== cancel);
 			if (runIdRef.current === token) fn();
 		}, Math.max(0, delay));
-		timersRef.current.push(t);
-		return t;
+		cancelsRef.current.push(cancel);
+		return cancel;
 	}, []);
 
 	useEffect(() => () => cancelAll(), [cancelAll]);
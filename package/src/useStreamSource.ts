@@ -0,0 +1,203 @@
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Incremental text inputs accepted by TreeStream's `source` prop.
+ * - AsyncIterable<string>: e.g. an async generator of model tokens
+ * - ReadableStream<Uint8Array | string>: bytes are decoded as UTF-8
+ * - Response: a fetch response whose body is read as it arrives
+ */
+export type StreamSource = AsyncIterable<string> | ReadableStream<Uint8Array | string> | Response;
+
+export interface StreamSourceState {
+	/** Text received so far */
+	text: string;
+	/** True once the source ended (or failed), or when there is no source */
+	done: boolean;
+	/** The error the source failed with, if any */
+	error: unknown;
+}
+
+export interface StreamSourceCallbacks {
+	/** Called with the full text once the source ends normally */
+	onEnd?: (text: string) => void;
+	/** Called when reading the source fails; text received so far is kept */
+	onError?: (error: unknown) => void;
+}
+
+/**
+ * readStreamSource
+ *
+ * Read a StreamSource chunk by chunk.
+ *
+ * Inputs:
+ * - source: see StreamSource
+ * - onChunk: called with each decoded chunk of text, in order
+ *
+ * Outputs:
+ * - done: resolves when the source ends, rejects when reading fails
+ * - cancel: stop reading and release the underlying reader/iterator; no
+ *   chunks are delivered afterwards
+ */
+export function readStreamSource(
+	source: StreamSource,
+	onChunk: (chunk: string) => void,
+): { done: Promise<void>; cancel: () => void } {
+	let cancelled = false;
+	let release: (() => void) | undefined;
+	const emit = (chunk: string) => {
+		if (!cancelled && chunk) onChunk(chunk);
+	};
+
+	const readStream = async (stream: ReadableStream<Uint8Array | string>) => {
+		const reader = stream.getReader();
+		release = () => void reader.cancel().catch(() => {});
+		const decoder = new TextDecoder();
+		while (!cancelled) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			emit(typeof value === 'string' ? value : decoder.decode(value, { stream: true }));
+		}
+		emit(decoder.decode());
+	};
+
+	const read = async () => {
+		if (isResponse(source)) {
+			if (!source.ok) throw new Error(`Stream source request failed with status ${source.status}`);
+			if (source.body) await readStream(source.body);
+			else emit(await source.text());
+			return;
+		}
+		if (isReadableStream(source)) {
+			await readStream(source);
+			return;
+		}
+		const iterator = source[Symbol.asyncIterator]();
+		release = () => void iterator.return?.()?.catch(() => {});
+		while (!cancelled) {
+			const { done, value } = await iterator.next();
+			if (done) break;
+			emit(String(value));
+		}
+	};
+
+	return {
+		done: read(),
+		cancel: () => {
+			cancelled = true;
+			release?.();
+		},
+	};
+}
+
+// A source can only be read once, so every hook using it shares one read
+type SharedRead = {
+	text: string;
+	done: boolean;
+	failed: boolean;
+	error: unknown;
+	listeners: Set<() => void>;
+	cancel: () => void;
+};
+
+const sharedReads = new WeakMap<StreamSource, SharedRead>();
+
+function subscribeSource(source: StreamSource, listener: () => void): { read: SharedRead; unsubscribe: () => void } {
+	let read = sharedReads.get(source);
+	if (!read) {
+		const shared: SharedRead = {
+			text: '',
+			done: false,
+			failed: false,
+			error: undefined,
+			listeners: new Set(),
+			cancel: () => {},
+		};
+		const notify = () => shared.listeners.forEach((l) => l());
+		const reader = readStreamSource(source, (chunk) => {
+			shared.text += chunk;
+			notify();
+		});
+		shared.cancel = reader.cancel;
+		reader.done.then(
+			() => {
+				shared.done = true;
+				notify();
+			},
+			(error: unknown) => {
+				Object.assign(shared, { done: true, failed: true, error });
+				notify();
+			},
+		);
+		sharedReads.set(source, shared);
+		read = shared;
+	}
+	const current = read;
+	current.listeners.add(listener);
+	return {
+		read: current,
+		unsubscribe: () => {
+			current.listeners.delete(listener);
+			// StrictMode subscribes again right after the cleanup: only stop
+			// reading once nothing has picked the source up by then
+			queueMicrotask(() => {
+				if (current.listeners.size > 0 || current.done) return;
+				current.cancel();
+				sharedReads.delete(source);
+			});
+		},
+	};
+}
+
+/**
+ * useStreamSource
+ *
+ * Accumulate the text of a StreamSource into state as it arrives.
+ * - Restarts from empty text when the source identity changes
+ * - Reads each source once: effects re-run by StrictMode (or another hook
+ *   given the same source) share the read and the text received so far
+ * - Cancels the reader on unmount or source change
+ * - A null/undefined source is reported as done with empty text
+ */
+export function useStreamSource(
+	source: StreamSource | null | undefined,
+	callbacks: StreamSourceCallbacks = {},
+): StreamSourceState {
+	const [state, setState] = useState<StreamSourceState>(() => ({ text: '', done: source == null, error: undefined }));
+
+	// Keep latest callbacks in a ref to avoid restarting the reader
+	const callbacksRef = useRef(callbacks);
+	useEffect(() => {
+		callbacksRef.current = callbacks;
+	});
+
+	useEffect(() => {
+		if (source == null) {
+			setState({ text: '', done: true, error: undefined });
+			return;
+		}
+		// A source that already ended is shown as is, without reporting it again
+		let reported = sharedReads.get(source)?.done ?? false;
+		const update = () => {
+			setState({ text: read.text, done: read.done, error: read.error });
+			if (!read.done || reported) return;
+			reported = true;
+			if (read.failed) callbacksRef.current.onError?.(read.error);
+			else callbacksRef.current.onEnd?.(read.text);
+		};
+		const { read, unsubscribe } = subscribeSource(source, update);
+		setState({ text: read.text, done: read.done, error: read.error });
+		return unsubscribe;
+	}, [source]);
+
+	return state;
+}
+
+function isResponse(source: StreamSource): source is Response {
+	if (typeof Response !== 'undefined' && source instanceof Response) return true;
+	const r = source as Partial<Response>;
+	return typeof r.text === 'function' && 'headers' in r && 'body' in r;
+}
+
+function isReadableStream(source: StreamSource): source is ReadableStream<Uint8Array | string> {
+	return typeof (source as ReadableStream).getReader === 'function';
+}
@@ -0,0 +1,1293 @@
+'use client';
+
+import React, { useContext, useEffect, useMemo, useCallback, useRef, useId, useReducer, useState } from 'react';
+import { buildPlan, planContinuation, planMatches, planSignature, type ExecutionUnit } from './plan';
+import { assembleRendered } from './assemble';
+import { Cursor, DEFAULT_CURSOR } from './Cursor';
+import { renderAnimated, resolveTokenAnimation, type AnimatedChunk, type TokenAnimation } from './animate';
+import { resolveSuspense, SuspendedUnit, type SuspenseUnits } from './suspense';
+import { cloneNestedStream } from './streamUnit';
+import { isTreeStreamElement } from './nested';
+import { useSequentialScheduler } from './useSequentialScheduler';
+import { SchedulerContext, type Scheduler } from './scheduler';
+import { StreamGroupContext, useStreamGroupTurn } from './StreamGroup';
+import { useReducedMotion, type ReducedMotion } from './useReducedMotion';
+import { announcementChunks, fullCopy, VISUALLY_HIDDEN, type Announce } from './announce';
+import { prerenderState, useIsHydrating, type SsrMode } from './ssr';
+import {
+	captureProgress,
+	countTokens,
+	planUnitWeights,
+	progressFraction,
+	readStoredProgress,
+	restoreState,
+	storeProgress,
+	type ProgressResume,
+	type StreamProgress,
+	type StreamTick,
+} from './progress';
+import { useStreamSource, type StreamSource } from './useStreamSource';
+import { initialStreamState, streamReducer, type StreamAction } from './reducer';
+import { assignRef } from './refs';
+import { tokenize, type StreamBy } from './tokenize';
+import { resolvePace, type Pace } from './pace';
+import { pacingForDuration, planTokenCounts } from './duration';
+
+/**
+ * Options of useTreeStream, which are also the own props of TreeStream.
+ */
+export interface TreeStreamOptions {
+	/**
+	 * Number of tokens to display per tick (must be >= 1).
+	 * Tokens are words, characters, sentences, lines or paragraphs based on the `streamBy` prop.
+	 * @default 5
+	 */
+	speed?: number;
+	/**
+	 * Delay between ticks in milliseconds.
+	 * Controls the animation speed of the streaming effect.
+	 * @default 50
+	 */
+	interval?: number;
+	/**
+	 * Tokenization strategy for text nodes.
+	 * - 'word': Text is split and streamed word by word
+	 * - 'character': Text is split and streamed character by character
+	 * - 'sentence': Text is streamed a sentence at a time
+	 * - 'line': Text is streamed line by line (e.g. code)
+	 * - 'paragraph': Text is streamed a paragraph (blank-line separated block) at a time
+	 * - function: `(text, { unitIndex, revealed }) => string[]`; tokens must join back to `text`
+	 * @default 'word'
+	 */
+	streamBy?: StreamBy;
+	/**
+	 * Locale used to segment text into words and graphemes with `Intl.Segmenter`,
+	 * e.g. 'ja', 'zh' or 'th' for languages written without spaces. Defaults to
+	 * the runtime locale. Without `Intl.Segmenter`, text in those scripts is
+	 * streamed a character at a time.
+	 */
+	locale?: string;
+	/**
+	 * Vary the timing of text ticks instead of waiting `interval` and revealing
+	 * `speed` tokens every time.
+	 * - 'natural': longer pauses after sentences, clauses and line breaks, with
+	 *   slight random jitter (use `createNaturalPace({ seed })` for reproducible timings)
+	 * - function: `(token, index, unit) => ({ delay, count })`, called before each
+	 *   tick with the next token; omitted fields fall back to `interval`/`speed`
+	 */
+	pace?: Pace;
+	/**
+	 * Time budget in milliseconds for revealing the whole tree. `interval` and
+	 * `speed` are derived from the total token count of the plan, including
+	 * nested TreeStreams (which inherit the derived pacing), so content of any
+	 * length finishes in about the same time. Growing content is paced for the
+	 * content known so far.
+	 */
+	duration?: number;
+	/**
+	 * With `duration`: the shortest delay between ticks in ms. Longer content
+	 * reveals more tokens per tick instead of ticking faster.
+	 * @default 16
+	 */
+	minInterval?: number;
+	/**
+	 * With `duration`: the most tokens revealed per tick. When reached, the
+	 * stream takes longer than `duration` rather than jumping ahead in big chunks.
+	 */
+	maxSpeed?: number;
+	/**
+	 * Scheduler that runs text ticks and unit transitions, e.g.
+	 * `createFrameScheduler()` for frame-aligned updates shared by many streams,
+	 * `createVirtualClock()` for deterministic tests, or `withTransition(...)`.
+	 * Falls back to the nearest `SchedulerContext` provider, then setTimeout.
+	 * Nested TreeStreams inherit it.
+	 */
+	scheduler?: Scheduler;
+	/**
+	 * Position of this stream within an enclosing `StreamGroup`. Streams run in
+	 * ascending order, ties in mount order; the stream auto-starts once every
+	 * stream before it has completed. Ignored outside a group.
+	 * @default 0
+	 */
+	order?: number;
+	/**
+	 * How nested TreeStream children are sequenced:
+	 * - 'block': the parent waits for each nested stream to complete
+	 * - 'parallel': the parent continues while nested streams run; its
+	 *   `onComplete` waits for all of them
+	 * - 'detached': like 'parallel', but the parent completes without waiting
+	 * @default 'block'
+	 */
+	nestedMode?: 'block' | 'parallel' | 'detached';
+	/**
+	 * Reveal the whole tree immediately instead of animating it. Callbacks
+	 * (including those of nested streams) still fire in order.
+	 * - 'user': follow the `prefers-reduced-motion` media query
+	 * - 'always' / 'never': force instant reveal on or off
+	 * Nested TreeStreams inherit the setting unless they set their own.
+	 * @default 'user'
+	 */
+	reducedMotion?: ReducedMotion;
+	/**
+	 * How the content is exposed to assistive technology. The wrapper always
+	 * has `aria-busy` while streaming.
+	 * - 'off': screen readers see the animated content as it is revealed
+	 * - 'full': a visually hidden copy holds the complete final content from
+	 *   the start, and the animated copy is `aria-hidden`
+	 * - 'sentence' / 'unit': the animated copy is `aria-hidden`, and a polite
+	 *   live region announces each completed sentence / text unit
+	 * @default 'off'
+	 */
+	announce?: Announce;
+	/**
+	 * Render a blinking caret at the reveal point: after the text being
+	 * revealed (inside its elements with `deep`), or after the last revealed
+	 * content between units and while waiting for more. While a nested
+	 * stream runs, the caret moves into it. `true` renders '▍'; any other
+	 * node is used as the caret. Nested TreeStreams inherit it.
+	 */
+	cursor?: React.ReactNode;
+	/**
+	 * Wrap the text revealed by each tick in a span while it animates in,
+	 * e.g. a fade-in class. A string is used as the span's class name; an
+	 * object sets `className`, `style` or a `render` function, and the
+	 * `duration` (default 300ms) after which the chunk is merged back into
+	 * plain text to keep the DOM small. Nested TreeStreams inherit it.
+	 */
+	tokenAnimation?: TokenAnimation;
+	/**
+	 * Keep the caret after the last content once the stream has completed
+	 * (only for this stream, not the nested streams it inherits to).
+	 * @default false
+	 */
+	keepCursor?: boolean;
+	/**
+	 * Wrap each instant unit in its own Suspense boundary and hold the stream
+	 * at it until it has rendered, so a `React.lazy` component or a component
+	 * suspending on data keeps its place in the reading order. `true` renders
+	 * nothing while waiting; an object sets the `fallback` shown in place of
+	 * the unit and a `timeout` in ms after which the stream moves on anyway.
+	 * `finish()` and reduced motion do not wait. Nested TreeStreams inherit it.
+	 */
+	suspense?: SuspenseUnits;
+	/**
+	 * Server rendering strategy:
+	 * - 'empty': the server renders an empty wrapper; streaming starts on the client
+	 * - 'static': the server renders the content (or `ssrPrefix` tokens of it); after
+	 *   hydration it stays on screen and streaming continues after it
+	 * - 'replay': the server renders the content; after hydration the stream
+	 *   replays from the start while the wrapper keeps its rendered height
+	 * Client-only renders always stream from the start.
+	 * @default 'empty'
+	 */
+	ssr?: SsrMode;
+	/**
+	 * With `ssr`, render only this many text tokens on the server (stopping at
+	 * the first nested stream). Renders all content when omitted.
+	 */
+	ssrPrefix?: number;
+	/**
+	 * Whether to automatically start streaming when the component mounts
+	 * or when inputs/signature change. If false, the component initializes
+	 * in an idle state until `start()` is called on its ref.
+	 * @default true
+	 */
+	autoStart?: boolean;
+	/**
+	 * Descend into host elements (e.g. `<p>`, `<ul>`, `<strong>`) and components
+	 * with static children, streaming their text in document order instead of
+	 * rendering each element instantly. Partially revealed elements are cloned
+	 * with only the children revealed so far.
+	 * Nested TreeStream components use their own `deep` setting.
+	 * @default false
+	 */
+	deep?: boolean;
+	/**
+	 * Callback invoked after all content (including nested TreeStream components)
+	 * has finished streaming.
+	 */
+	onComplete?: () => void;
+	/**
+	 * Incremental text to stream after `children`: an `AsyncIterable<string>`,
+	 * a `ReadableStream<Uint8Array | string>` or a fetch `Response`. Text is
+	 * appended to the plan as it arrives while the reveal keeps its own pace,
+	 * and `onComplete` waits until the source has ended. The reader is
+	 * cancelled on unmount or when a different source is passed.
+	 */
+	source?: StreamSource | null;
+	/**
+	 * Set while more children are still expected (e.g. a response still being
+	 * received). Reaching the end of the plan then waits for more content
+	 * instead of completing; `onComplete` fires once `pending` is false and
+	 * everything has been revealed.
+	 * @default false
+	 */
+	pending?: boolean;
+	/** Called when the stream starts (or resumes from restored progress). */
+	onStart?: () => void;
+	/** Called when a plan unit begins: a text unit starts streaming, an instant unit renders or a nested stream mounts. */
+	onUnitStart?: (unit: ExecutionUnit, index: number) => void;
+	/** Called when a plan unit has been fully revealed, or a nested stream has completed. */
+	onUnitComplete?: (unit: ExecutionUnit, index: number) => void;
+	/** Called after each text tick with the tokens of the unit revealed so far and in total. */
+	onTick?: (tick: StreamTick) => void;
+	/**
+	 * Called with a serializable snapshot whenever the stream moves forward:
+	 * the unit and token reached, the progress of nested streams still
+	 * running, and the overall `fraction` revealed (0 to 1, including nested
+	 * streams). Pass it back as `initialProgress` to resume after a remount.
+	 */
+	onProgress?: (progress: StreamProgress) => void;
+	/**
+	 * Progress to resume from on mount, as reported by `onProgress`. Content
+	 * revealed before it is shown at once; completed progress restores the
+	 * stream complete without firing `onComplete`. Ignored when it was
+	 * recorded for different content. Only read on mount.
+	 */
+	initialProgress?: StreamProgress | null;
+	/**
+	 * Persist progress in sessionStorage under this key and resume from it on
+	 * mount (when no `initialProgress` is given), e.g. the message id in a
+	 * virtualized list. Not read while hydrating server markup.
+	 */
+	storageKey?: string;
+	/** Called with the full source text once the source ends. */
+	onSourceEnd?: (text: string) => void;
+	/**
+	 * Called when reading the source fails. The text received so far is still
+	 * revealed and the stream completes with it.
+	 */
+	onSourceError?: (error: unknown) => void;
+}
+
+/**
+ * Imperative controls exposed through the TreeStream ref.
+ *
+ * @example
+ * ```tsx
+ * const stream = useRef<TreeStreamHandle>(null);
+ * <TreeStream ref={stream} autoStart={false}>Content</TreeStream>
+ * <button onClick={() => stream.current?.start()}>Go</button>
+ * ```
+ */
+export interface TreeStreamHandle {
+	/** Start an idle stream (autoStart={false}). No-op once started. */
+	start(): void;
+	/** Pause streaming, including nested streams currently in progress. */
+	pause(): void;
+	/** Resume a paused stream and its paused nested streams. */
+	resume(): void;
+	/**
+	 * Reveal all remaining content immediately, finishing nested streams
+	 * (running or not yet started) along the way, then fire onComplete.
+	 * Content that arrives later through new children is revealed at once too.
+	 */
+	finish(): void;
+	/** Clear the revealed content and stream again from the beginning. */
+	restart(): void;
+}
+
+/** State and controls returned by useTreeStream. */
+export interface TreeStreamResult extends TreeStreamHandle {
+	/** The content revealed so far, ready to render anywhere */
+	nodes: React.ReactNode;
+	/** The stream has been started (automatically or through `start()`) */
+	started: boolean;
+	/** Text is being revealed or a nested stream is running */
+	streaming: boolean;
+	complete: boolean;
+	paused: boolean;
+	/** Share of all tokens revealed so far (0 to 1), including nested streams */
+	progress: number;
+	/**
+	 * With `ssr` 'replay', the stream is replaying server-rendered content
+	 * after hydration; a container should keep its server-rendered height
+	 */
+	replaying: boolean;
+}
+
+/**
+ * useTreeStream
+ *
+ * The streaming engine behind TreeStream, without a wrapper element: builds
+ * the plan from `children`, runs the scheduler and nested streams, and
+ * returns the revealed nodes with status flags, progress and controls. Render
+ * `nodes` into any layout; TreeStream is a thin wrapper around this hook.
+ *
+ * @example
+ * ```tsx
+ * const stream = useTreeStream(answer, { speed: 3 });
+ * return (
+ *   <Bubble typing={stream.streaming} onClick={stream.finish}>
+ *     {stream.nodes}
+ *   </Bubble>
+ * );
+ * ```
+ */
+export function useTreeStream(
+	children: React.ReactNode,
+	{
+		speed = 5,
+		interval = 50,
+		streamBy = 'word',
+		locale,
+		pace,
+		duration,
+		minInterval = 16,
+		maxSpeed,
+		scheduler,
+		order = 0,
+		nestedMode = 'block',
+		reducedMotion = 'user',
+		announce = 'off',
+		cursor,
+		keepCursor = false,
+		tokenAnimation,
+		suspense,
+		ssr = 'empty',
+		ssrPrefix,
+		autoStart = true,
+		deep = false,
+		onComplete,
+		onStart,
+		onUnitStart,
+		onUnitComplete,
+		onTick,
+		source,
+		pending = false,
+		onProgress,
+		initialProgress,
+		storageKey,
+		onSourceEnd,
+		onSourceError,
+	}: TreeStreamOptions = {},
+): TreeStreamResult {
+	const instanceId = useId();
+
+	// Keep latest onComplete in a ref to avoid effect resubscribes
+	const onCompleteRef = useRef<(() => void) | undefined>(onComplete);
+	useEffect(() => {
+		onCompleteRef.current = onComplete;
+	}, [onComplete]);
+	// Lifecycle events are read at the time they fire
+	const eventsRef = useRef({ onStart, onUnitStart, onUnitComplete, onTick });
+	eventsRef.current = { onStart, onUnitStart, onUnitComplete, onTick };
+
+	// Build plan & a stable signature
+	// Text from `source` streams after the children as it arrives
+	const { text: sourceText, done: sourceDone } = useStreamSource(source, {
+		onEnd: onSourceEnd,
+		onError: onSourceError,
+	});
+	// Parallel nested streams still running, by unit index. The ref is read by
+	// the executor; the count re-renders so completion can resume once they end.
+	const outstandingRef = useRef(new Set<number>());
+	const [outstandingCount, setOutstandingCount] = useState(0);
+	const nestedModeRef = useRef(nestedMode);
+	nestedModeRef.current = nestedMode;
+	const reducedMotionRef = useRef(reducedMotion);
+	reducedMotionRef.current = reducedMotion;
+	const cursorRef = useRef(cursor);
+	cursorRef.current = cursor;
+	const tokenAnimationRef = useRef(tokenAnimation);
+	tokenAnimationRef.current = tokenAnimation;
+	const suspenseRef = useRef(suspense);
+	suspenseRef.current = suspense;
+
+	// Completion is held back while more content may still be appended, or
+	// parallel nested streams are still running
+	const holdCompletion = pending || (source != null && !sourceDone) || outstandingCount > 0;
+	const holdCompletionRef = useRef(holdCompletion);
+	holdCompletionRef.current = holdCompletion;
+
+	const plan = useMemo(
+		() => buildPlan(source != null ? [children, sourceText] : children, { deep }),
+		[children, source, sourceText, deep],
+	);
+	const signature = useMemo(() => planSignature(plan), [plan]);
+
+	// With a duration budget, pacing is derived from the plan's token count
+	const durationPacing = useMemo(
+		() =>
+			duration == null
+				? null
+				: pacingForDuration(planTokenCounts(plan, { streamBy, locale }), { duration, minInterval, maxSpeed }),
+		[plan, streamBy, locale, duration, minInterval, maxSpeed],
+	);
+	const durationPacingRef = useRef(durationPacing);
+	durationPacingRef.current = durationPacing;
+	const tickSpeed = durationPacing?.speed ?? speed;
+	const tickInterval = durationPacing?.interval ?? interval;
+
+	// Store latest plan in a ref for the executor (avoids callback deps churn)
+	const latestPlanRef = useRef<ExecutionUnit[]>(plan);
+	useEffect(() => {
+		latestPlanRef.current = plan;
+	}, [plan]);
+
+	const streamByRef = useRef(streamBy);
+	useEffect(() => {
+		streamByRef.current = streamBy;
+	}, [streamBy]);
+	// A preset keeps its RNG state for the lifetime of the pace value
+	const paceFn = useMemo(() => resolvePace(pace), [pace]);
+	const paceRef = useRef(paceFn);
+	useEffect(() => {
+		paceRef.current = paceFn;
+	}, [paceFn]);
+	const localeRef = useRef(locale);
+	useEffect(() => {
+		localeRef.current = locale;
+	}, [locale]);
+
+	// Centralized scheduler for timers and run guards
+	const contextScheduler = useContext(SchedulerContext);
+	const activeScheduler = scheduler ?? contextScheduler;
+	const { schedule: scheduleNext, cancelAll, nextRunToken } = useSequentialScheduler(activeScheduler);
+
+	// Chunks of text still animating in, merged back into plain text after their duration
+	const animation = useMemo(() => resolveTokenAnimation(tokenAnimation), [tokenAnimation]);
+	const animationRef = useRef(animation);
+	animationRef.current = animation;
+	const activeSchedulerRef = useRef(activeScheduler);
+	activeSchedulerRef.current = activeScheduler;
+	const [animatedChunks, setAnimatedChunks] = useState<AnimatedChunk[]>([]);
+	const chunkIdRef = useRef(0);
+	const chunkTimersRef = useRef(new Set<() => void>());
+	const animateChunk = useCallback((unitIndex: number, start: number, end: number) => {
+		const id = chunkIdRef.current++;
+		setAnimatedChunks((chunks) => [...chunks, { id, unitIndex, start, end }]);
+		const cancel = activeSchedulerRef.current.schedule(() => {
+			chunkTimersRef.current.delete(cancel);
+			setAnimatedChunks((chunks) => chunks.filter((c) => c.id !== id));
+		}, animationRef.current?.duration ?? 300);
+		chunkTimersRef.current.add(cancel);
+	}, []);
+	const clearAnimatedChunks = useCallback(() => {
+		for (const cancel of Array.from(chunkTimersRef.current)) cancel();
+		chunkTimersRef.current.clear();
+		setAnimatedChunks([]);
+	}, []);
+	useEffect(() => clearAnimatedChunks, [clearAnimatedChunks]);
+
+	// Restored progress and server rendering start from already revealed
+	// content. Restored progress and 'static' SSR continue at `resumeRef`;
+	// 'replay' restarts while the wrapper keeps its height.
+	const hydrating = useIsHydrating();
+	const resumeRef = useRef<(ProgressResume & { signature: string }) | null>(null);
+	const ssrReplayRef = useRef(false);
+
+	// How revealed nested streams (and instant units wrapped for suspense) are
+	// rendered from the latest element of their unit, by unit index, so they
+	// stay live to prop updates. Other instant units render their latest element.
+	const liveRef = useRef(new Map<number, LiveRender>());
+
+	// Internal state managed via reducer. stateRef mirrors every dispatch
+	// synchronously so imperative controls always see the current position.
+	const [state, dispatchState] = useReducer(streamReducer, initialStreamState, (initial) => {
+		const progress = initialProgress ?? (storageKey && !hydrating ? readStoredProgress(storageKey) : null);
+		const restored = progress
+			? restoreState(plan, progress, {
+					streamBy,
+					locale,
+					renderNested: (element, nestedProgress, index) =>
+						renderLive(liveRef.current, index, element, (latest) =>
+							cloneNestedStream(latest, { initialProgress: nestedProgress }),
+						),
+			  })
+			: null;
+		if (restored) {
+			resumeRef.current = { ...(restored.resume ?? { unitIndex: plan.length }), signature };
+			return restored.state;
+		}
+		if (ssr === 'empty' || !hydrating) return initial;
+		const prerendered = prerenderState(plan, {
+			prefix: ssrPrefix,
+			streamBy,
+			locale,
+			renderNested: (element, index) =>
+				renderLive(liveRef.current, index, element, (latest) =>
+					cloneNestedStream(latest, {
+						ssr: (latest.props as { ssr?: SsrMode }).ssr ?? ssr,
+					}),
+				),
+		});
+		if (ssr === 'static') resumeRef.current = { ...prerendered.resume, signature };
+		else ssrReplayRef.current = true;
+		return prerendered.state;
+	});
+	const stateRef = useRef(state);
+	const dispatch = useCallback((action: StreamAction) => {
+		stateRef.current = streamReducer(stateRef.current, action);
+		dispatchState(action);
+	}, []);
+	const {
+		unitIndex: currentUnit,
+		waitingNested: isWaitingForNested,
+		waitingSuspense: isWaitingForSuspense,
+		rendered: renderedMap,
+		text,
+		complete: isComplete,
+		paused: isPaused,
+	} = state;
+	const activeTextUnitRef = useRef<number | null>(text.activeUnit);
+
+	// Inside a StreamGroup, auto-start waits for this stream's turn
+	const groupTurn = useStreamGroupTurn(instanceId, order, isComplete);
+	const shouldAutoStart = autoStart && groupTurn;
+
+	// Control flags: paused stops scheduling; finishing runs units synchronously
+	const pausedRef = useRef(false);
+	const finishingRef = useRef(false);
+	// Reduced motion runs every stream in finishing mode
+	const reduced = useReducedMotion(reducedMotion);
+	const reducedRef = useRef(reduced);
+	reducedRef.current = reduced;
+	// Handles of mounted nested streams by unit index (for pause/resume/finish)
+	const nestedHandlesRef = useRef(new Map<number, TreeStreamHandle>());
+
+	// Latest progress reported by nested streams, and restored progress for
+	// nested streams not mounted again yet, by unit index
+	const nestedProgressRef = useRef(new Map<number, StreamProgress>());
+	const pendingNestedRef = useRef(new Map<number, StreamProgress>());
+	const [nestedVersion, setNestedVersion] = useState(0);
+	const onProgressRef = useRef(onProgress);
+	onProgressRef.current = onProgress;
+	const storageKeyRef = useRef(storageKey);
+	storageKeyRef.current = storageKey;
+	// Token weights of the units, computed once per plan
+	const weightsRef = useRef<{
+		plan: ExecutionUnit[];
+		streamBy?: StreamBy;
+		locale?: string;
+		weights: number[];
+	} | null>(null);
+	const weightsFor = useCallback((forPlan: ExecutionUnit[], options: { streamBy?: StreamBy; locale?: string }) => {
+		const cached = weightsRef.current;
+		if (cached?.plan === forPlan && cached.streamBy === options.streamBy && cached.locale === options.locale) {
+			return cached.weights;
+		}
+		const weights = planUnitWeights(forPlan, options);
+		weightsRef.current = { ...options, plan: forPlan, weights };
+		return weights;
+	}, []);
+	const emitProgress = useCallback(() => {
+		if (!onProgressRef.current && !storageKeyRef.current) return;
+		const currentPlan = latestPlanRef.current;
+		const options = { streamBy: streamByRef.current, locale: localeRef.current };
+		const progress = captureProgress(
+			currentPlan,
+			stateRef.current,
+			nestedProgressRef.current,
+			weightsFor(currentPlan, options),
+			options,
+		);
+		if (storageKeyRef.current) storeProgress(storageKeyRef.current, progress);
+		onProgressRef.current?.(progress);
+	}, [weightsFor]);
+
+	// Lifecycle events
+	const begin = useCallback(() => {
+		dispatch({ type: 'START' });
+		eventsRef.current.onStart?.();
+	}, [dispatch]);
+	const notifyUnit = useCallback((event: 'onUnitStart' | 'onUnitComplete', unitIndex: number) => {
+		const unit = latestPlanRef.current[unitIndex];
+		if (unit) eventsRef.current[event]?.(unit, unitIndex);
+	}, []);
+
+	// Units still revealed after a keyed plan change, by their new index: null
+	// when kept in full, else the text prefix to continue streaming from
+	const keptRef = useRef(new Map<number, string | null>());
+
+	// Continue with the next unit: synchronously while finishing, else on a tick
+	const runUnitRef = useRef<(unitIndex: number) => void>(() => {});
+	const advanceTo = useCallback(
+		(next: number) => {
+			dispatch({ type: 'ADVANCE' });
+			if (finishingRef.current) runUnitRef.current(next);
+			else if (!pausedRef.current) scheduleNext(() => runUnitRef.current(next), 0);
+		},
+		[dispatch, scheduleNext],
+	);
+
+	// Begin streaming a text unit, keeping any already revealed prefix
+	const streamText = useCallback(
+		(unitIndex: number, content: string, revealed = '') => {
+			if (finishingRef.current) {
+				dispatch({ type: 'REVEAL_TEXT', unitIndex, content });
+				notifyUnit('onUnitComplete', unitIndex);
+				advanceTo(unitIndex + 1);
+				return;
+			}
+			const rest = content.slice(revealed.length);
+			const units = tokenize(rest, streamByRef.current, { unitIndex, revealed, locale: localeRef.current });
+			activeTextUnitRef.current = unitIndex;
+			dispatch({ type: 'BEGIN_TEXT', unitIndex, tokens: units, prefix: revealed });
+		},
+		[dispatch, advanceTo, notifyUnit],
+	);
+
+	// Prepare a nested stream element: its onComplete resumes this stream
+	// ('block') or updates the outstanding set ('parallel'), and its ref and
+	// progress are tracked by unit index. The props and ref of a custom unit
+	// are its own and are left alone. The callbacks read the props of the
+	// latest element the unit is rendered from.
+	const mountNested = useCallback(
+		(unitIndex: number, child: React.ReactElement, mode: 'block' | 'parallel' | 'detached') => {
+			let latest = child;
+			const propsOf = (element: React.ReactElement) =>
+				(isTreeStreamElement(element) ? element.props : {}) as {
+					onComplete?: () => void;
+					onProgress?: (progress: StreamProgress) => void;
+					reducedMotion?: ReducedMotion;
+					cursor?: React.ReactNode;
+					tokenAnimation?: TokenAnimation;
+					suspense?: SuspenseUnits;
+				};
+			let reported = false;
+			const composed = () => {
+				try {
+					propsOf(latest).onComplete?.();
+				} finally {
+					// A child that reopens as its children grow completes again;
+					// only the completion the parent is waiting for moves it on
+					if (mode === 'block') {
+						const s = stateRef.current;
+						if (s.waitingNested && s.unitIndex === unitIndex) {
+							notifyUnit('onUnitComplete', unitIndex);
+							dispatch({ type: 'NESTED_DONE' });
+							advanceTo(unitIndex + 1);
+						}
+					} else if (mode === 'parallel') {
+						if (outstandingRef.current.delete(unitIndex)) {
+							notifyUnit('onUnitComplete', unitIndex);
+							setOutstandingCount(outstandingRef.current.size);
+						}
+					} else if (!reported) {
+						reported = true;
+						notifyUnit('onUnitComplete', unitIndex);
+					}
+				}
+			};
+			// Compose child's ref so controls can reach the running child
+			const composedRef = (handle: TreeStreamHandle | null) => {
+				if (handle) nestedHandlesRef.current.set(unitIndex, handle);
+				else nestedHandlesRef.current.delete(unitIndex);
+				if (isTreeStreamElement(latest))
+					assignRef((latest as { ref?: React.Ref<TreeStreamHandle> }).ref, handle);
+			};
+			const composedProgress = (progress: StreamProgress) => {
+				propsOf(latest).onProgress?.(progress);
+				nestedProgressRef.current.set(unitIndex, progress);
+				setNestedVersion((v) => v + 1);
+				emitProgress();
+			};
+			const initialNested = pendingNestedRef.current.get(unitIndex);
+			pendingNestedRef.current.delete(unitIndex);
+			return renderLive(liveRef.current, unitIndex, child, (element) => {
+				latest = element;
+				const childProps = propsOf(element);
+				return cloneNestedStream(element, {
+					...element.props,
+					autoStart: true,
+					onComplete: composed,
+					onProgress: composedProgress,
+					ref: composedRef,
+					reducedMotion: childProps.reducedMotion ?? reducedMotionRef.current,
+					cursor: childProps.cursor ?? cursorRef.current,
+					tokenAnimation: childProps.tokenAnimation ?? tokenAnimationRef.current,
+					suspense: childProps.suspense ?? suspenseRef.current,
+					// Nested streams share the parent's duration budget
+					...(durationPacingRef.current ? { ...durationPacingRef.current, duration: undefined } : null),
+					...(initialNested ? { initialProgress: initialNested } : null),
+				});
+			});
+		},
+		[dispatch, advanceTo, emitProgress, notifyUnit],
+	);
+
+	// Move past an instant unit held for its Suspense boundary, once it has
+	// resolved or timed out (whichever comes first)
+	const releaseSuspended = useCallback(
+		(unitIndex: number) => {
+			const s = stateRef.current;
+			if (!s.waitingSuspense || s.unitIndex !== unitIndex) return;
+			dispatch({ type: 'SUSPENSE_DONE' });
+			notifyUnit('onUnitComplete', unitIndex);
+			advanceTo(unitIndex + 1);
+		},
+		[dispatch, advanceTo, notifyUnit],
+	);
+	const scheduleSuspenseTimeout = useCallback(
+		(unitIndex: number) => {
+			const timeout = resolveSuspense(suspenseRef.current)?.timeout;
+			if (timeout != null) scheduleNext(() => releaseSuspended(unitIndex), timeout);
+		},
+		[scheduleNext, releaseSuspended],
+	);
+
+	// Executor (reads latest plan from ref; stable callback)
+	const runUnit = useCallback(
+		(unitIndex: number) => {
+			const currentPlan = latestPlanRef.current;
+			if (unitIndex >= currentPlan.length) {
+				if (holdCompletionRef.current || outstandingRef.current.size > 0) {
+					dispatch({ type: 'AWAIT_MORE' });
+					return;
+				}
+				dispatch({ type: 'COMPLETE' });
+				onCompleteRef.current?.();
+				return;
+			}
+			const unit = currentPlan[unitIndex];
+			if (!unit) return;
+			const kept = keptRef.current.get(unitIndex);
+			keptRef.current.delete(unitIndex);
+			if (kept === null) {
+				// Still revealed from before the plan changed
+				dispatch({ type: 'ADVANCE' });
+				runUnitRef.current(unitIndex + 1);
+				return;
+			}
+			notifyUnit('onUnitStart', unitIndex);
+			switch (unit.type) {
+				case 'text_stream': {
+					streamText(unitIndex, unit.content, kept);
+					break;
+				}
+				case 'instant_render': {
+					const held = resolveSuspense(suspenseRef.current);
+					if (held) {
+						const node = renderLive(liveRef.current, unitIndex, unit.content, (element) => (
+							<SuspendedUnit fallback={held.fallback} onResolve={() => releaseSuspended(unitIndex)}>
+								{element}
+							</SuspendedUnit>
+						));
+						if (!finishingRef.current) {
+							dispatch({ type: 'SUSPENSE_START', unitIndex, node });
+							scheduleSuspenseTimeout(unitIndex);
+							break; // wait for the boundary to resolve
+						}
+						dispatch({ type: 'INSTANT_RENDER', unitIndex, node });
+					} else {
+						dispatch({ type: 'INSTANT_RENDER', unitIndex, node: unit.content });
+					}
+					notifyUnit('onUnitComplete', unitIndex);
+					advanceTo(unitIndex + 1);
+					break;
+				}
+				case 'nested_stream': {
+					const mode = nestedModeRef.current;
+					const node = mountNested(unitIndex, unit.component, mode);
+					if (mode !== 'block') {
+						// Render the child and carry on without waiting for it
+						if (mode === 'parallel') {
+							outstandingRef.current.add(unitIndex);
+							setOutstandingCount(outstandingRef.current.size);
+						}
+						dispatch({ type: 'INSTANT_RENDER', unitIndex, node });
+						advanceTo(unitIndex + 1);
+						break;
+					}
+					dispatch({ type: 'NESTED_START', unitIndex, node });
+					break; // wait for nested to call back
+				}
+			}
+		},
+		[dispatch, advanceTo, streamText, mountNested, notifyUnit, releaseSuspended, scheduleSuspenseTimeout],
+	);
+	runUnitRef.current = runUnit;
+
+	// Text tick
+	useEffect(() => {
+		if (isPaused || !text.streaming || text.tokens.length === 0) return;
+		if (text.index >= text.tokens.length) {
+			dispatch({ type: 'END_TEXT' });
+			notifyUnit('onUnitComplete', currentUnit);
+			advanceTo(currentUnit + 1);
+			return;
+		}
+		const baseSpeed = Math.max(1, tickSpeed ?? 1);
+		const baseInterval = Math.max(0, tickInterval ?? 0);
+		const paced = paceRef.current?.(text.tokens[text.index], text.index, {
+			index: currentUnit,
+			tokens: text.tokens,
+			interval: baseInterval,
+			speed: baseSpeed,
+		});
+		scheduleNext(() => {
+			const step = Math.max(1, Math.floor(paced?.count ?? baseSpeed));
+			const nextIndex = Math.min(text.index + step, text.tokens.length);
+			const textContent = text.prefix + text.tokens.slice(0, nextIndex).join('');
+			dispatch({ type: 'TEXT_TICK', nextIndex, content: textContent });
+			if (animationRef.current) {
+				const start = (text.prefix + text.tokens.slice(0, text.index).join('')).length;
+				if (textContent.length > start) animateChunk(currentUnit, start, textContent.length);
+			}
+			const report = eventsRef.current.onTick;
+			if (report) {
+				const revealedBefore = countTokens(text.prefix, currentUnit, {
+					streamBy: streamByRef.current,
+					locale: localeRef.current,
+				});
+				report({
+					unitIndex: currentUnit,
+					revealed: revealedBefore + text.tokens.slice(0, nextIndex).filter(Boolean).length,
+					total: revealedBefore + text.tokens.filter(Boolean).length,
+					text: textContent,
+				});
+			}
+		}, Math.max(0, paced?.delay ?? baseInterval));
+	}, [
+		isPaused,
+		text.streaming,
+		text.prefix,
+		text.tokens,
+		text.index,
+		tickSpeed,
+		tickInterval,
+		currentUnit,
+		advanceTo,
+		scheduleNext,
+		notifyUnit,
+		animateChunk,
+	]);
+
+	// Keep streaming from the current position when the plan was only extended
+	const continueStream = useCallback(
+		(prevPlan: ExecutionUnit[], grown: number | null) => {
+			const s = stateRef.current;
+			if (grown == null) {
+				// Units appended: a running stream picks them up by itself
+				if (s.complete || s.awaitingMore) {
+					dispatch({ type: 'REOPEN' });
+					runUnit(prevPlan.length);
+				}
+				return;
+			}
+			const grownUnit = latestPlanRef.current[grown];
+			const active = s.text.streaming && s.text.activeUnit === grown;
+			const passed = s.complete || s.awaitingMore || (!active && s.unitIndex > grown);
+			if (grownUnit?.type !== 'text_stream' || !(active || passed)) return;
+			// Re-tokenize the grown unit, keeping what is already on screen
+			const previous = prevPlan[grown];
+			const revealed = active
+				? s.text.prefix + s.text.tokens.slice(0, s.text.index).join('')
+				: previous?.type === 'text_stream'
+				? previous.content
+				: '';
+			cancelAll();
+			if (s.complete || s.awaitingMore) dispatch({ type: 'REOPEN' });
+			// A unit that had been revealed in full begins again
+			if (passed) notifyUnit('onUnitStart', grown);
+			streamText(grown, grownUnit.content, revealed);
+		},
+		[dispatch, runUnit, streamText, cancelAll, notifyUnit],
+	);
+
+	// When earlier content changed, keep the units still in the plan (matched by
+	// key) revealed: unchanged units stay as they are, changed text units keep
+	// the prefix they share with the new text, and removed units disappear.
+	// Not while a nested stream or suspended unit holds the stream.
+	const reconcilePlan = useCallback(
+		(prevPlan: ExecutionUnit[]) => {
+			const s = stateRef.current;
+			if (s.waitingNested || s.waitingSuspense || outstandingRef.current.size > 0) return false;
+			const nextPlan = latestPlanRef.current;
+			const matches = planMatches(prevPlan, nextPlan);
+			const rendered = new Map<number, React.ReactNode>();
+			const kept = new Map<number, string | null>();
+			matches.forEach((prevIndex, index) => {
+				if (prevIndex == null || !s.rendered.has(prevIndex)) return;
+				const unit = nextPlan[index];
+				const shown = s.rendered.get(prevIndex);
+				if (unit.type !== 'text_stream') {
+					rendered.set(index, shown);
+					kept.set(index, null);
+					return;
+				}
+				const prefix = commonPrefix(typeof shown === 'string' ? shown : '', unit.content);
+				if (!prefix) return;
+				rendered.set(index, prefix);
+				kept.set(index, prefix === unit.content ? null : prefix);
+			});
+
+			nextRunToken();
+			clearAnimatedChunks();
+			activeTextUnitRef.current = null;
+			pendingNestedRef.current.clear();
+			const remap = <T,>(map: Map<number, T>) =>
+				new Map(
+					matches.flatMap((prevIndex, index): [number, T][] =>
+						prevIndex != null && map.has(prevIndex) ? [[index, map.get(prevIndex)!]] : [],
+					),
+				);
+			nestedHandlesRef.current = remap(nestedHandlesRef.current);
+			nestedProgressRef.current = remap(nestedProgressRef.current);
+			liveRef.current = remap(liveRef.current);
+
+			// A complete stream whose units were all kept (some removed) stays complete
+			if (s.complete && nextPlan.every((_, index) => kept.get(index) === null)) {
+				keptRef.current.clear();
+				dispatch({ type: 'RECONCILE', unitIndex: nextPlan.length, rendered });
+				dispatch({ type: 'COMPLETE' });
+				return true;
+			}
+			keptRef.current = kept;
+			dispatch({ type: 'RECONCILE', unitIndex: 0, rendered });
+			runUnit(0);
+			return true;
+		},
+		[dispatch, runUnit, nextRunToken, clearAnimatedChunks],
+	);
+
+	// Continue streaming after server-rendered or restored content
+	const resumeAt = useCallback(
+		(resume: ProgressResume) => {
+			resumeRef.current = null;
+			if (reducedRef.current) finishingRef.current = true;
+			begin();
+			const currentPlan = latestPlanRef.current;
+			const nested = Object.entries(resume.nested ?? {}).map(
+				([index, progress]) => [Number(index), progress] as const,
+			);
+			pendingNestedRef.current = new Map(nested);
+			// Nested streams that were running alongside this one are mounted again
+			for (const [index] of nested) {
+				const unit = currentPlan[index];
+				if (index >= resume.unitIndex || unit?.type !== 'nested_stream') continue;
+				const mode = nestedModeRef.current === 'detached' ? 'detached' : 'parallel';
+				if (mode === 'parallel') {
+					outstandingRef.current.add(index);
+					setOutstandingCount(outstandingRef.current.size);
+				}
+				notifyUnit('onUnitStart', index);
+				dispatch({ type: 'INSTANT_RENDER', unitIndex: index, node: mountNested(index, unit.component, mode) });
+			}
+			const unit = currentPlan[resume.unitIndex];
+			if (resume.revealed != null && unit?.type === 'text_stream') {
+				notifyUnit('onUnitStart', resume.unitIndex);
+				streamText(resume.unitIndex, unit.content, resume.revealed);
+			} else runUnit(resume.unitIndex);
+		},
+		[dispatch, begin, runUnit, streamText, mountNested, notifyUnit],
+	);
+
+	// Reset ONLY when the signature or the auto-start condition (autoStart and
+	// the StreamGroup turn) change, and only when the new plan does not simply
+	// extend the one already streaming
+	const runPlanRef = useRef<ExecutionUnit[] | null>(null);
+	const runAutoStartRef = useRef(shouldAutoStart);
+	useEffect(() => {
+		const prevPlan = runPlanRef.current;
+		runPlanRef.current = latestPlanRef.current;
+		const autoStartChanged = runAutoStartRef.current !== shouldAutoStart;
+		runAutoStartRef.current = shouldAutoStart;
+
+		// Keep server-rendered or restored content and continue after it, unless
+		// the content changed. A restored complete stream has nothing left to do.
+		const resume = resumeRef.current;
+		if (resume && resume.signature === signature) {
+			if (stateRef.current.complete) resumeRef.current = null;
+			else if (shouldAutoStart) resumeAt(resume);
+			return;
+		}
+		resumeRef.current = null;
+		const continuation = prevPlan && !autoStartChanged ? planContinuation(prevPlan, latestPlanRef.current) : null;
+		if (prevPlan && continuation && stateRef.current.started) {
+			continueStream(prevPlan, continuation.grown);
+			return;
+		}
+		if (prevPlan && !autoStartChanged && stateRef.current.started && reconcilePlan(prevPlan)) return;
+
+		nextRunToken();
+		clearAnimatedChunks();
+		keptRef.current.clear();
+		liveRef.current.clear();
+		activeTextUnitRef.current = null;
+		pausedRef.current = false;
+		outstandingRef.current.clear();
+		setOutstandingCount(0);
+		nestedProgressRef.current.clear();
+		pendingNestedRef.current.clear();
+		if (reducedRef.current) finishingRef.current = true;
+		dispatch({ type: 'RESET' });
+
+		const planLen = latestPlanRef.current.length;
+		if (planLen === 0 && !holdCompletionRef.current) {
+			dispatch({ type: 'COMPLETE' });
+			onCompleteRef.current?.();
+			return;
+		}
+		if (shouldAutoStart) {
+			begin();
+			runUnit(0);
+		}
+	}, [
+		signature,
+		shouldAutoStart,
+		dispatch,
+		begin,
+		runUnit,
+		continueStream,
+		reconcilePlan,
+		nextRunToken,
+		resumeAt,
+		clearAnimatedChunks,
+	]);
+
+	// Report progress whenever the stream moves forward
+	useEffect(() => {
+		if (state.started) emitProgress();
+	}, [state.started, currentUnit, text.index, text.activeUnit, isWaitingForNested, isComplete, emitProgress]);
+
+	// Complete once no more content is expected if everything has been revealed
+	useEffect(() => {
+		if (!holdCompletion && stateRef.current.awaitingMore) runUnit(latestPlanRef.current.length);
+	}, [holdCompletion, runUnit]);
+
+	// While finishing, nested streams reached after finish() are finished as soon as they mount
+	useEffect(() => {
+		if (finishingRef.current && isWaitingForNested) nestedHandlesRef.current.get(currentUnit)?.finish();
+	}, [isWaitingForNested, currentUnit]);
+	useEffect(() => {
+		if (!finishingRef.current) return;
+		for (const index of Array.from(outstandingRef.current)) nestedHandlesRef.current.get(index)?.finish();
+	}, [outstandingCount]);
+
+	// Imperative controls
+	const start = useCallback(() => {
+		const s = stateRef.current;
+		if (s.started || s.complete) return;
+		if (resumeRef.current) {
+			resumeAt(resumeRef.current);
+			return;
+		}
+		begin();
+		runUnit(0);
+	}, [begin, runUnit, resumeAt]);
+
+	const pause = useCallback(() => {
+		const s = stateRef.current;
+		if (!s.started || s.complete || s.paused) return;
+		pausedRef.current = true;
+		cancelAll();
+		dispatch({ type: 'PAUSE' });
+		for (const handle of Array.from(nestedHandlesRef.current.values())) handle.pause();
+	}, [dispatch, cancelAll]);
+
+	const resume = useCallback(() => {
+		const s = stateRef.current;
+		if (!s.paused) return;
+		pausedRef.current = false;
+		dispatch({ type: 'RESUME' });
+		for (const handle of Array.from(nestedHandlesRef.current.values())) handle.resume();
+		// Text ticks restart from the tick effect; nested streams call back on completion
+		if (s.text.streaming || s.waitingNested) return;
+		// A held instant unit still resolves by itself; its timeout starts over
+		if (s.waitingSuspense) {
+			scheduleSuspenseTimeout(s.unitIndex);
+			return;
+		}
+		runUnit(s.unitIndex);
+	}, [dispatch, runUnit, scheduleSuspenseTimeout]);
+
+	const finish = useCallback(() => {
+		finishingRef.current = true;
+		pausedRef.current = false;
+		const s = stateRef.current;
+		// Every running nested stream, including detached ones that may outlive this stream
+		for (const handle of Array.from(nestedHandlesRef.current.values())) handle.finish();
+		if (s.complete) return;
+		cancelAll();
+		if (s.paused) dispatch({ type: 'RESUME' });
+		if (!s.started) {
+			begin();
+			runUnit(0);
+			return;
+		}
+		const active = s.text.activeUnit;
+		const activeUnit = active != null ? latestPlanRef.current[active] : undefined;
+		if (s.text.streaming && activeUnit?.type === 'text_stream') {
+			dispatch({ type: 'REVEAL_TEXT', unitIndex: active!, content: activeUnit.content });
+			notifyUnit('onUnitComplete', active!);
+			advanceTo(active! + 1);
+			return;
+		}
+		if (s.waitingNested) return; // finished above; it calls back on completion
+		if (s.waitingSuspense) {
+			releaseSuspended(s.unitIndex);
+			return;
+		}
+		runUnit(s.unitIndex);
+	}, [dispatch, begin, runUnit, advanceTo, cancelAll, notifyUnit, releaseSuspended]);
+
+	// Switching to reduced motion mid-stream reveals the rest at once
+	useEffect(() => {
+		if (!reduced) return;
+		if (stateRef.current.started) finish();
+		else finishingRef.current = true;
+	}, [reduced, finish]);
+
+	const restart = useCallback(() => {
+		finishingRef.current = reducedRef.current;
+		pausedRef.current = false;
+		nextRunToken();
+		clearAnimatedChunks();
+		keptRef.current.clear();
+		liveRef.current.clear();
+		activeTextUnitRef.current = null;
+		outstandingRef.current.clear();
+		setOutstandingCount(0);
+		nestedProgressRef.current.clear();
+		pendingNestedRef.current.clear();
+		dispatch({ type: 'RESET' });
+		begin();
+		runUnit(0);
+	}, [dispatch, begin, runUnit, nextRunToken, clearAnimatedChunks]);
+
+	// Share of all tokens revealed, including the progress nested streams
+	// report (nestedVersion changes whenever nestedProgressRef is updated)
+	const progress = useMemo(() => {
+		const options = { streamBy, locale };
+		return progressFraction(plan, state, nestedProgressRef.current, weightsFor(plan, options), options);
+	}, [plan, state, nestedVersion, streamBy, locale, weightsFor]);
+
+	// Revealed content, with the accessible copy or live region for `announce`
+	// The caret follows the text being revealed, else the last revealed unit;
+	// a running nested stream shows its own
+	const showCursor =
+		cursor != null && cursor !== false && state.started && !isWaitingForNested && (!isComplete || keepCursor);
+	const cursorAfter = !showCursor
+		? null
+		: text.streaming && text.activeUnit != null
+		? text.activeUnit
+		: Math.max(-1, ...Array.from(renderedMap.keys()));
+	const nodes = useMemo(() => {
+		const caret =
+			cursorAfter != null
+				? {
+						after: cursorAfter,
+						node: <Cursor blink={!reduced}>{cursor === true ? DEFAULT_CURSOR : cursor}</Cursor>,
+				  }
+				: undefined;
+		// Revealed elements render from the latest plan, keeping their reveal state
+		const displayed = new Map(renderedMap);
+		renderedMap.forEach((node, unitIndex) => {
+			const unit = plan[unitIndex];
+			if (!unit || unit.type === 'text_stream') return;
+			const element = unit.type === 'nested_stream' ? unit.component : unit.content;
+			const live = liveRef.current.get(unitIndex);
+			if (live) displayed.set(unitIndex, live(element));
+			else if (unit.type === 'instant_render') displayed.set(unitIndex, element);
+		});
+		if (animation && animatedChunks.length > 0) {
+			for (const unitIndex of new Set(animatedChunks.map((c) => c.unitIndex))) {
+				const content = renderedMap.get(unitIndex);
+				if (typeof content !== 'string') continue;
+				const chunks = animatedChunks.filter((c) => c.unitIndex === unitIndex);
+				displayed.set(unitIndex, renderAnimated(content, chunks, animation));
+			}
+		}
+		const revealed = assembleRendered(plan, displayed, instanceId, caret);
+		// With an accessible copy or live region, the animated copy is hidden from
+		// assistive technology and taken out of the tab order until it completes.
+		// The wrapper span stays in place so completing never remounts the content.
+		let accessible: React.ReactNode = revealed;
+		if (announce === 'full' || announce === 'sentence' || announce === 'unit') {
+			const hidden = isComplete ? null : { 'aria-hidden': true, inert: INERT };
+			let exposed: React.ReactNode = null;
+			if (announce === 'full') {
+				if (!isComplete) exposed = <span style={VISUALLY_HIDDEN}>{fullCopy(plan, `${instanceId}a`)}</span>;
+			} else {
+				const active = new Set(outstandingRef.current);
+				if (text.streaming && text.activeUnit != null) active.add(text.activeUnit);
+				if (isWaitingForNested) active.add(currentUnit);
+				const chunks = announcementChunks(plan, renderedMap, active, isComplete, announce);
+				exposed = (
+					<span role="status" aria-live="polite" style={VISUALLY_HIDDEN}>
+						{chunks.map((chunk, i) => (
+							<span key={i}>{chunk} </span>
+						))}
+					</span>
+				);
+			}
+			accessible = (
+				<>
+					{exposed}
+					<span {...hidden}>{revealed}</span>
+				</>
+			);
+		}
+		// Nested streams inherit an explicitly provided scheduler, and are
+		// sequenced by this stream rather than an enclosing StreamGroup
+		const grouped = <StreamGroupContext.Provider value={null}>{accessible}</StreamGroupContext.Provider>;
+		return scheduler ? <SchedulerContext.Provider value={scheduler}>{grouped}</SchedulerContext.Provider> : grouped;
+	}, [
+		plan,
+		renderedMap,
+		instanceId,
+		announce,
+		text.streaming,
+		text.activeUnit,
+		isWaitingForNested,
+		currentUnit,
+		outstandingCount,
+		isComplete,
+		scheduler,
+		cursor,
+		cursorAfter,
+		reduced,
+		animation,
+		animatedChunks,
+	]);
+
+	return {
+		nodes,
+		started: state.started,
+		streaming: text.streaming || isWaitingForNested || isWaitingForSuspense,
+		complete: isComplete,
+		paused: isPaused,
+		progress,
+		replaying: ssrReplayRef.current && !isComplete,
+		start,
+		pause,
+		resume,
+		finish,
+		restart,
+	};
+}
+
+// React 19 treats `inert` as a boolean; React 18 passes it through as an
+// unknown attribute, where an empty string sets it
+const INERT = (parseInt(React.version, 10) >= 19 ? true : '') as unknown as boolean;
+
+function commonPrefix(a: string, b: string): string {
+	let i = 0;
+	while (i < a.length && i < b.length && a[i] === b[i]) i++;
+	return a.slice(0, i);
+}
+
+/** Renders a unit from its latest element, reusing the node while the element is unchanged. */
+type LiveRender = (element: React.ReactElement) => React.ReactNode;
+
+// Register how the unit at `unitIndex` is rendered and render `element` with it
+function renderLive(
+	live: Map<number, LiveRender>,
+	unitIndex: number,
+	element: React.ReactElement,
+	render: (element: React.ReactElement) => React.ReactNode,
+): React.ReactNode {
+	let last: React.ReactElement | undefined;
+	let node: React.ReactNode;
+	const renderLatest: LiveRender = (next) => {
+		if (next !== last) {
+			last = next;
+			node = render(next);
+		}
+		return node;
+	};
+	live.set(unitIndex, renderLatest);
+	return renderLatest(element);
+}
@@ -149,6 +149,7 @@ describe('TreeStream', () => {
 			</section>
 		);
 
+		const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
 		const { container } = render(
 			<TreeStream as={Custom} className="host" speed={50} interval={1}>
 				Custom wrapper
@@ -168,5 +169,8 @@ describe('TreeStream', () => {
 		expect(el!.dataset.custom).toBe('yes');
 		expect(el!.className).toContain('host');
 		expect(el!.dataset.complete).toBe('true');
+		// A function component wrapper is not given a ref it cannot take
+		expect(consoleError.mock.calls.flat().join(' ')).not.toContain('cannot be given refs');
+		consoleError.mockRestore();
 	});
 });
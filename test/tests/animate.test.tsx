@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+import { TreeStream, type TreeStreamHandle } from 'react-tree-stream';
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	act(() => {
+		createRoot(container).render(ui);
+	});
+	return { container };
+}
+
+const tokens = (container: Element) => Array.from(container.querySelectorAll('.fade')).map((el) => el.textContent);
+
+describe('token animation', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('wraps each newly revealed chunk in a span until its animation ends', async () => {
+		const { container } = render(
+			<TreeStream tokenAnimation={{ className: 'fade', duration: 15 }} speed={2} interval={10}>
+				One two three
+			</TreeStream>,
+		);
+		await tick(10);
+		expect(tokens(container)).toEqual(['One ']);
+		await tick(10);
+		expect(tokens(container)).toEqual(['One ', 'two ']);
+		await tick(10);
+		// The first chunk has been merged back into plain text
+		expect(tokens(container)).toEqual(['two ', 'three']);
+		expect(container.textContent).toBe('One two three');
+		await tick(30);
+		expect(tokens(container)).toEqual([]);
+		const wrapper = container.firstElementChild!;
+		expect(wrapper.childNodes).toHaveLength(1);
+		expect(wrapper.textContent).toBe('One two three');
+	});
+
+	it('accepts a class name, style or render function', async () => {
+		const { container } = render(
+			<>
+				<TreeStream tokenAnimation="fade" speed={1} interval={10}>
+					alpha
+				</TreeStream>
+				<TreeStream
+					tokenAnimation={{ render: (chunk) => <mark>{chunk}</mark>, duration: 100 }}
+					speed={1}
+					interval={10}
+				>
+					beta
+				</TreeStream>
+				<TreeStream tokenAnimation={{ style: { opacity: 0.5 } }} speed={1} interval={10}>
+					gamma
+				</TreeStream>
+			</>,
+		);
+		await tick(10);
+		expect(tokens(container)).toEqual(['alpha']);
+		expect(container.querySelector('mark')!.textContent).toBe('beta');
+		const styled = container.querySelectorAll('[data-tree-stream-token]');
+		expect((styled[styled.length - 1] as HTMLElement).style.opacity).toBe('0.5');
+	});
+
+	it('animates text inside markup and nested streams', async () => {
+		const { container } = render(
+			<TreeStream tokenAnimation="fade" deep speed={1} interval={10}>
+				<p>
+					Hello <b>there</b>
+				</p>
+				<TreeStream speed={1} interval={10}>
+					nested
+				</TreeStream>
+			</TreeStream>,
+		);
+		await tick(10, 6);
+		expect(container.querySelector('b .fade')!.textContent).toBe('there');
+		await tick(10, 3);
+		expect(tokens(container)).toContain('nested');
+	});
+
+	it('drops animating chunks on restart', async () => {
+		const handle = React.createRef<TreeStreamHandle>();
+		const { container } = render(
+			<TreeStream ref={handle} tokenAnimation="fade" speed={1} interval={10}>
+				One two
+			</TreeStream>,
+		);
+		await tick(10, 2);
+		expect(tokens(container)).toEqual(['One', ' ']);
+		act(() => handle.current!.restart());
+		expect(tokens(container)).toEqual([]);
+		expect(container.textContent).toBe('');
+	});
+});
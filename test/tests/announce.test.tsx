@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { TreeStream, type TreeStreamHandle } from 'react-tree-stream';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	act(() => {
+		root.render(ui);
+	});
+	return { container, root, unmount: () => root.unmount() };
+}
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+function liveChunks(host: HTMLElement) {
+	return Array.from(host.querySelectorAll('[aria-live] > span')).map((s) => s.textContent?.trim());
+}
+
+describe('accessibility', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('sets aria-busy while streaming', async () => {
+		const { container } = render(
+			<TreeStream speed={1} interval={10}>
+				Hello world
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await tick(10);
+		expect(host.getAttribute('aria-busy')).toBe('true');
+		await tick(10, 4);
+		expect(host.dataset.complete).toBe('true');
+		expect(host.hasAttribute('aria-busy')).toBe(false);
+	});
+
+	it('exposes the full final content from the start with announce="full"', async () => {
+		const { container } = render(
+			<TreeStream announce="full" speed={1} interval={10}>
+				Hello <strong>bold</strong> world
+				<TreeStream as="span" onComplete={() => {}}>
+					nested part
+				</TreeStream>
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await act(async () => {});
+		const [copy, animated] = Array.from(host.children) as HTMLElement[];
+		expect(copy.style.position).toBe('absolute');
+		expect(copy.textContent).toBe('Hello bold worldnested part');
+		expect(animated.getAttribute('aria-hidden')).toBe('true');
+		expect(animated.textContent).toBe('');
+	});
+
+	it('keeps the full copy of nested streams free of effects', async () => {
+		const handle = React.createRef<TreeStreamHandle>();
+		const onStart = vi.fn();
+		const onUnitStart = vi.fn();
+		const onUnitComplete = vi.fn();
+		const onComplete = vi.fn();
+		const onProgress = vi.fn();
+		render(
+			<TreeStream announce="full" speed={1} interval={10}>
+				Intro
+				<TreeStream
+					ref={handle}
+					as="span"
+					storageKey="nested"
+					onStart={onStart}
+					onUnitStart={onUnitStart}
+					onUnitComplete={onUnitComplete}
+					onComplete={onComplete}
+					onProgress={onProgress}
+				>
+					nested part
+				</TreeStream>
+			</TreeStream>,
+		);
+		await act(async () => {});
+		expect(onStart).not.toHaveBeenCalled();
+		expect(onUnitStart).not.toHaveBeenCalled();
+		expect(onComplete).not.toHaveBeenCalled();
+		expect(onProgress).not.toHaveBeenCalled();
+		expect(handle.current).toBeNull();
+		expect(sessionStorage.getItem('nested')).toBeNull();
+		await tick(10, 10);
+		expect(onStart).toHaveBeenCalledTimes(1);
+		expect(onUnitStart).toHaveBeenCalledTimes(1);
+		expect(onUnitComplete).toHaveBeenCalledTimes(1);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		expect(handle.current).not.toBeNull();
+	});
+
+	it('mounts instant units once and keeps the animated copy inert until complete', async () => {
+		const mounted = vi.fn();
+		const Buy = () => {
+			React.useEffect(() => mounted(), []);
+			return (
+				<button id="buy" onClick={() => {}}>
+					Buy
+				</button>
+			);
+		};
+		const { container } = render(
+			<TreeStream announce="full" speed={1} interval={10}>
+				Hello
+				<Buy />
+				<a id="docs" href="/docs" onClick={() => {}}>
+					docs
+				</a>
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await tick(10);
+		const [copy, animated] = Array.from(host.children) as HTMLElement[];
+		expect(copy.innerHTML).toBe('Hello<a href="/docs">docs</a>');
+		expect(animated.hasAttribute('inert')).toBe(true);
+		await tick(10, 5);
+		expect(host.dataset.complete).toBe('true');
+		expect(mounted).toHaveBeenCalledTimes(1);
+		expect(container.querySelectorAll('#buy')).toHaveLength(1);
+		expect(container.querySelectorAll('#docs')).toHaveLength(1);
+		// Complete: only the animated copy is left, exposed and focusable
+		expect(host.children).toHaveLength(1);
+		expect(host.children[0]).toBe(animated);
+		expect(animated.hasAttribute('aria-hidden')).toBe(false);
+		expect(animated.hasAttribute('inert')).toBe(false);
+	});
+
+	it('announces revealed elements and exposes the content once complete', async () => {
+		const { container } = render(
+			<TreeStream announce="sentence" speed={1} interval={10}>
+				See the docs. <a href="/docs">docs link</a>
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		const animated = host.querySelector('[aria-hidden="true"]') as HTMLElement;
+		expect(animated.hasAttribute('inert')).toBe(true);
+		await tick(10, 10);
+		expect(host.dataset.complete).toBe('true');
+		expect(liveChunks(host)).toEqual(['See the docs.', 'docs link']);
+		expect(animated.hasAttribute('aria-hidden')).toBe(false);
+		expect(animated.hasAttribute('inert')).toBe(false);
+		expect(animated.querySelector('a')?.getAttribute('href')).toBe('/docs');
+	});
+
+	it('announces completed sentences in a live region', async () => {
+		const { container } = render(
+			<TreeStream announce="sentence" speed={1} interval={10}>
+				First sentence here. Second one follows. Last
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		const region = host.querySelector('[aria-live]') as HTMLElement;
+		expect(region.getAttribute('aria-live')).toBe('polite');
+		await tick(10, 4);
+		expect(liveChunks(host)).toEqual([]);
+		await tick(10, 2);
+		expect(liveChunks(host)).toEqual(['First sentence here.']);
+		expect(host.querySelector('[aria-hidden="true"]')?.textContent).toBe('First sentence here. ');
+		await tick(10, 10);
+		expect(liveChunks(host)).toEqual(['First sentence here.', 'Second one follows.', 'Last']);
+	});
+
+	it('announces each text unit once it has been revealed', async () => {
+		const { container } = render(
+			<TreeStream announce="unit" deep speed={1} interval={10}>
+				<p>Alpha beta</p>
+				<p>Gamma</p>
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		const seen: string[] = [];
+		for (let i = 0; i < 12; i++) {
+			await tick(10);
+			const chunks = JSON.stringify(liveChunks(host));
+			if (seen[seen.length - 1] !== chunks) seen.push(chunks);
+		}
+		expect(seen.map((s) => JSON.parse(s))).toEqual([[], ['Alpha beta'], ['Alpha beta', 'Gamma']]);
+	});
+});
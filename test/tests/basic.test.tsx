@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import React, { memo, forwardRef } from 'react';
-import { TreeStream, type TreeStreamProps } from 'react-tree-stream';
+import { TreeStream, STREAMING_MARKER, type TreeStreamHandle, type TreeStreamProps } from 'react-tree-stream';
 import { createRoot } from 'react-dom/client';
 import { act } from 'react';
 
@@ -39,7 +39,9 @@ describe('TreeStream', () => {
 	});
 
 	it('exports the component', () => {
-		expect(TreeStream).toBeTypeOf('function');
+		// forwardRef component (exotic object) so it can expose a TreeStreamHandle
+		expect(TreeStream).toBeTypeOf('object');
+		expect(TreeStream.displayName).toBe('TreeStream');
 	});
 
 	it('streams words/whitespace blocks over time', async () => {
@@ -208,9 +210,12 @@ describe('TreeStream', () => {
 
 	it('detects nested streams through memo and forwardRef wrappers', async () => {
 		const MemoTreeStream = memo(TreeStream);
-		const FwdTreeStream = forwardRef<HTMLDivElement, TreeStreamProps<'div'>>(
-			TreeStream as unknown as React.ForwardRefRenderFunction<HTMLDivElement, TreeStreamProps<'div'>>,
+		// A user-land forwardRef wrapper, marked so it is coordinated as a nested stream
+		const ForwardedTreeStream = (props: TreeStreamProps<'div'>, ref: React.ForwardedRef<TreeStreamHandle>) => (
+			<TreeStream {...props} ref={ref} />
 		);
+		(ForwardedTreeStream as unknown as Record<symbol, boolean>)[STREAMING_MARKER] = true;
+		const FwdTreeStream = forwardRef(ForwardedTreeStream);
 
 		const { container } = render(
 			<TreeStream speed={50} interval={1}>
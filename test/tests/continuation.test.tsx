@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { TreeStream } from 'react-tree-stream';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	act(() => {
+		root.render(ui);
+	});
+	return { container, root, unmount: () => root.unmount() };
+}
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+describe('TreeStream append-only continuation', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	const App = ({ msg, onComplete }: { msg: React.ReactNode; onComplete?: () => void }) => (
+		<TreeStream interval={10} speed={1} streamBy="character" onComplete={onComplete}>
+			{msg}
+		</TreeStream>
+	);
+
+	it('keeps streaming when the active text grows', async () => {
+		const { container, root } = render(<App msg="Hello" />);
+		await tick(10, 2);
+		expect(container.textContent).toBe('He');
+
+		await act(async () => {
+			root.render(<App msg="Hello world" />);
+		});
+		expect(container.textContent).toBe('He');
+		await tick(10);
+		expect(container.textContent).toBe('Hel');
+		await tick(10, 20);
+		expect(container.textContent).toBe('Hello world');
+	});
+
+	it('continues after completion when more text arrives', async () => {
+		const onComplete = vi.fn();
+		const { container, root } = render(<App msg="Hi" onComplete={onComplete} />);
+		await tick(10, 5);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		expect(host.dataset.complete).toBe('true');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+
+		await act(async () => {
+			root.render(<App msg="Hi there" onComplete={onComplete} />);
+		});
+		expect(host.dataset.complete).toBe('false');
+		expect(container.textContent).toBe('Hi');
+		await tick(10);
+		expect(container.textContent).toBe('Hi ');
+		await tick(10, 20);
+		expect(container.textContent).toBe('Hi there');
+		expect(host.dataset.complete).toBe('true');
+		expect(onComplete).toHaveBeenCalledTimes(2);
+	});
+
+	it('streams units appended after completion', async () => {
+		const { container, root } = render(<App msg={['Ab']} />);
+		await tick(10, 5);
+		expect(container.textContent).toBe('Ab');
+
+		await act(async () => {
+			root.render(<App msg={['Ab', <em key="e">!</em>, 'cd']} />);
+		});
+		await tick(0);
+		expect(container.innerHTML).toContain('Ab<em>!</em>');
+		await tick(10, 3);
+		expect(container.textContent).toBe('Ab!cd');
+	});
+
+	it('moves past a nested stream once when it grows after completing', async () => {
+		const onUnitStart = vi.fn();
+		const onUnitComplete = vi.fn();
+		const onComplete = vi.fn();
+		const Parent = ({ inner }: { inner: string }) => (
+			<TreeStream
+				interval={10}
+				speed={1}
+				streamBy="character"
+				onUnitStart={(_, index) => onUnitStart(index)}
+				onUnitComplete={(_, index) => onUnitComplete(index)}
+				onComplete={onComplete}
+			>
+				A<TreeStream as="span">{inner}</TreeStream>
+				long tail
+			</TreeStream>
+		);
+		const { container, root } = render(<Parent inner="b" />);
+		await tick(10, 10);
+		expect(container.textContent).toBe('Ablo');
+
+		await act(async () => {
+			root.render(<Parent inner="bc" />);
+		});
+		await tick(10, 12);
+		expect(container.textContent).toBe('Abclong tail');
+		expect(onUnitStart.mock.calls.map(([index]) => index)).toEqual([0, 1, 2]);
+		expect(onUnitComplete.mock.calls.map(([index]) => index)).toEqual([0, 1, 2]);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('resets when earlier content diverges', async () => {
+		const { container, root } = render(<App msg={['One', ' two']} />);
+		await tick(10, 4);
+		expect(container.textContent).toBe('One');
+
+		await act(async () => {
+			root.render(<App msg={['Uno', ' two', ' three']} />);
+		});
+		expect(container.textContent).toBe('');
+		await tick(10);
+		expect(container.textContent).toBe('U');
+	});
+});
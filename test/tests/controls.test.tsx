@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React, { createRef } from 'react';
+import { TreeStream, type TreeStreamHandle } from 'react-tree-stream';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	act(() => {
+		root.render(ui);
+	});
+	return { container, root, unmount: () => root.unmount() };
+}
+
+function compact(text: string | null | undefined) {
+	return (text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+describe('TreeStream imperative handle', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('starts an idle stream with start()', async () => {
+		const ref = createRef<TreeStreamHandle>();
+		const { container } = render(
+			<TreeStream ref={ref} autoStart={false} streamBy="character" speed={1} interval={10}>
+				Go
+			</TreeStream>,
+		);
+		await tick(100);
+		expect(container.textContent).toBe('');
+
+		await act(async () => {
+			ref.current!.start();
+		});
+		await tick(10);
+		expect(container.textContent).toBe('G');
+	});
+
+	it('pauses and resumes, including nested streams in progress', async () => {
+		const ref = createRef<TreeStreamHandle>();
+		const { container } = render(
+			<TreeStream ref={ref} streamBy="character" speed={1} interval={10}>
+				{'A'}
+				<TreeStream streamBy="character" speed={1} interval={10}>
+					bcd
+				</TreeStream>
+				{'E'}
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await tick(10, 3);
+		expect(compact(host.textContent)).toBe('Ab');
+
+		await act(async () => {
+			ref.current!.pause();
+		});
+		expect(host.dataset.paused).toBe('true');
+		await tick(10, 10);
+		expect(compact(host.textContent)).toBe('Ab');
+
+		await act(async () => {
+			ref.current!.resume();
+		});
+		expect(host.dataset.paused).toBe('false');
+		await tick(10);
+		expect(compact(host.textContent)).toBe('Abc');
+		await tick(10, 10);
+		expect(compact(host.textContent)).toBe('AbcdE');
+		expect(host.dataset.complete).toBe('true');
+	});
+
+	it('finish() reveals everything through nested streams and completes once', async () => {
+		const ref = createRef<TreeStreamHandle>();
+		const onComplete = vi.fn();
+		const onFirst = vi.fn();
+		const onSecond = vi.fn();
+		const { container } = render(
+			<TreeStream ref={ref} speed={1} interval={100} onComplete={onComplete}>
+				{'Intro text here '}
+				<TreeStream speed={1} interval={100} onComplete={onFirst}>
+					first nested
+				</TreeStream>
+				<strong>instant</strong>
+				<TreeStream speed={1} interval={100} onComplete={onSecond}>
+					second nested
+				</TreeStream>
+				{' outro'}
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await tick(100);
+		expect(compact(host.textContent)).toBe('Intro');
+
+		await act(async () => {
+			ref.current!.finish();
+		});
+		expect(compact(host.textContent)).toBe('Intro text here first nestedinstantsecond nested outro');
+		expect(host.dataset.complete).toBe('true');
+		expect(onFirst).toHaveBeenCalledTimes(1);
+		expect(onSecond).toHaveBeenCalledTimes(1);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+
+		await tick(100, 5);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('finish() while a nested stream runs completes it first', async () => {
+		const ref = createRef<TreeStreamHandle>();
+		const order: string[] = [];
+		const { container } = render(
+			<TreeStream ref={ref} speed={10} interval={10} onComplete={() => order.push('parent')}>
+				{'Start '}
+				<TreeStream speed={1} interval={100} onComplete={() => order.push('child')}>
+					a slow nested child
+				</TreeStream>
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await tick(10, 3);
+		expect(host.dataset.streaming).toBe('true');
+
+		await act(async () => {
+			ref.current!.finish();
+		});
+		expect(compact(host.textContent)).toBe('Start a slow nested child');
+		expect(order).toEqual(['child', 'parent']);
+	});
+
+	it('finish() also finishes detached nested streams', async () => {
+		const ref = createRef<TreeStreamHandle>();
+		const onChildComplete = vi.fn();
+		const { container } = render(
+			<TreeStream ref={ref} nestedMode="detached" speed={10} interval={10}>
+				{'Start '}
+				<TreeStream speed={1} interval={100} onComplete={onChildComplete}>
+					a slow detached child
+				</TreeStream>
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await tick(10, 3);
+		expect(host.dataset.complete).toBe('true');
+		expect(compact(host.textContent)).not.toBe('Start a slow detached child');
+
+		await act(async () => {
+			ref.current!.finish();
+		});
+		expect(compact(host.textContent)).toBe('Start a slow detached child');
+		expect(onChildComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('restart() streams again from the beginning', async () => {
+		const ref = createRef<TreeStreamHandle>();
+		const onComplete = vi.fn();
+		const { container } = render(
+			<TreeStream ref={ref} streamBy="character" speed={1} interval={10} onComplete={onComplete}>
+				Hey
+			</TreeStream>,
+		);
+		await tick(10, 5);
+		expect(container.textContent).toBe('Hey');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+
+		await act(async () => {
+			ref.current!.restart();
+		});
+		expect(container.textContent).toBe('');
+		await tick(10);
+		expect(container.textContent).toBe('H');
+		await tick(10, 5);
+		expect(onComplete).toHaveBeenCalledTimes(2);
+	});
+
+	it('forwards wrapperRef to the wrapper element', () => {
+		const wrapperRef = createRef<HTMLElement>();
+		render(
+			<TreeStream as="section" wrapperRef={wrapperRef}>
+				Text
+			</TreeStream>,
+		);
+		expect(wrapperRef.current?.tagName).toBe('SECTION');
+		expect(wrapperRef.current?.dataset.treeStream).toBe('true');
+	});
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+import { TreeStream } from 'react-tree-stream';
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	act(() => {
+		createRoot(container).render(ui);
+	});
+	return { container };
+}
+
+const cursors = (container: Element) => container.querySelectorAll('[data-tree-stream-cursor]');
+
+describe('cursor', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('renders a caret after the revealed text and removes it on completion', async () => {
+		const { container } = render(
+			<TreeStream cursor speed={1} interval={10}>
+				One two
+			</TreeStream>,
+		);
+		await tick(10);
+		expect(container.textContent).toBe('One▍');
+		const caret = cursors(container)[0];
+		expect(caret.getAttribute('aria-hidden')).toBe('true');
+		await tick(10, 5);
+		expect(container.textContent).toBe('One two');
+		expect(cursors(container)).toHaveLength(0);
+	});
+
+	it('keeps the caret after completion with keepCursor', async () => {
+		const { container } = render(
+			<TreeStream cursor="_" keepCursor speed={1} interval={10}>
+				One
+				<b>two</b>
+			</TreeStream>,
+		);
+		await tick(10, 5);
+		expect(container.textContent).toBe('Onetwo_');
+		expect(container.querySelector('[data-complete="true"]')).not.toBeNull();
+	});
+
+	it('stays inside the element being revealed with deep', async () => {
+		const { container } = render(
+			<TreeStream cursor deep speed={1} interval={10}>
+				<p>
+					First <em>emphasis here</em>
+				</p>
+				<p>Second</p>
+			</TreeStream>,
+		);
+		await tick(10, 5);
+		expect(container.querySelector('em')!.textContent).toBe('emphasis▍');
+		expect(cursors(container)).toHaveLength(1);
+	});
+
+	it('moves into a running nested stream and stays after instant content', async () => {
+		const { container } = render(
+			<TreeStream cursor speed={1} interval={10}>
+				Intro
+				<TreeStream speed={1} interval={10} className="nested">
+					nested words
+				</TreeStream>
+				<hr />
+				Outro text
+			</TreeStream>,
+		);
+		await tick(10, 3);
+		expect(cursors(container)).toHaveLength(1);
+		expect(container.querySelector('.nested')!.textContent).toBe('nested▍');
+		await tick(10, 4);
+		// Past the nested stream and the instant <hr>, the caret follows the parent's text again
+		expect(container.querySelector('.nested')!.textContent).toBe('nested words');
+		expect(cursors(container)).toHaveLength(1);
+		expect(container.querySelector('hr ~ [data-tree-stream-cursor]')).not.toBeNull();
+		await tick(10, 5);
+		expect(cursors(container)).toHaveLength(0);
+	});
+
+	it('does not remount the content it follows', async () => {
+		const { container } = render(
+			<TreeStream cursor speed={1} interval={10}>
+				One two three
+			</TreeStream>,
+		);
+		await tick(10);
+		const textNode = container.firstElementChild!.firstChild;
+		await tick(10, 2);
+		expect(container.firstElementChild!.firstChild).toBe(textNode);
+		expect(textNode!.textContent).toBe('One two');
+	});
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { TreeStream } from 'react-tree-stream';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	act(() => {
+		root.render(ui);
+	});
+	return { container, root, unmount: () => root.unmount() };
+}
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+describe('TreeStream deep mode', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('streams text inside host elements with truncated parents', async () => {
+		const { container } = render(
+			<TreeStream deep speed={1} interval={10}>
+				<p className="para">
+					One two <strong>three</strong>
+				</p>
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+
+		await tick(10);
+		expect(host.innerHTML).toBe('<p class="para">One</p>');
+
+		await tick(10, 3);
+		expect(host.innerHTML).toBe('<p class="para">One two </p>');
+
+		await tick(10, 3);
+		expect(host.innerHTML).toBe('<p class="para">One two <strong>three</strong></p>');
+		await tick(0);
+		expect(host.dataset.complete).toBe('true');
+	});
+
+	it('keeps the whitespace between inline elements', async () => {
+		const { container } = render(
+			<TreeStream deep speed={10} interval={10}>
+				<p>
+					<strong>bold</strong> <em>italic</em>
+				</p>
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		for (let i = 0; i < 20 && host.dataset.complete !== 'true'; i++) await tick(10);
+		expect(host.dataset.complete).toBe('true');
+		expect(host.innerHTML).toBe('<p><strong>bold</strong> <em>italic</em></p>');
+	});
+
+	it('reveals list items one after another', async () => {
+		const { container } = render(
+			<TreeStream deep speed={10} interval={10}>
+				<ul>
+					<li>First</li>
+					<li>Second</li>
+				</ul>
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+
+		await tick(10);
+		expect(host.innerHTML).toBe('<ul><li>First</li></ul>');
+		await tick(0);
+		await tick(10);
+		expect(host.innerHTML).toBe('<ul><li>First</li><li>Second</li></ul>');
+	});
+
+	it('descends into component children', async () => {
+		const Card = ({ children }: { children: React.ReactNode }) => <section className="card">{children}</section>;
+		const { container } = render(
+			<TreeStream deep speed={1} interval={10}>
+				<Card>Alpha beta</Card>
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+
+		await tick(10);
+		expect(host.innerHTML).toBe('<section class="card">Alpha</section>');
+		await tick(10, 2);
+		expect(host.innerHTML).toBe('<section class="card">Alpha beta</section>');
+	});
+
+	it('runs nested streams found inside elements', async () => {
+		const { container } = render(
+			<TreeStream deep speed={10} interval={5}>
+				<p>
+					{'Before '}
+					<TreeStream as="span" speed={10} interval={5}>
+						inner
+					</TreeStream>
+					{' after'}
+				</p>
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		for (let i = 0; i < 20 && host.dataset.complete !== 'true'; i++) await tick(5);
+		expect(host.dataset.complete).toBe('true');
+		expect(host.querySelector('p')?.textContent).toBe('Before inner after');
+		expect(host.querySelector('p > span[data-tree-stream]')).toBeTruthy();
+	});
+});
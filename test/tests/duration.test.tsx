@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { TreeStream } from 'react-tree-stream';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	act(() => {
+		root.render(ui);
+	});
+	return { container, root, unmount: () => root.unmount() };
+}
+
+// Advance in small steps and report the elapsed time at completion
+async function timeToComplete(host: HTMLElement, step = 1, maxMs = 5000) {
+	let elapsed = 0;
+	while (host.dataset.complete !== 'true' && elapsed <= maxMs) {
+		await act(async () => {
+			vi.advanceTimersByTime(step);
+		});
+		elapsed += step;
+	}
+	return elapsed;
+}
+
+const SHORT = 'Fast hero copy.';
+const LONG = Array.from({ length: 120 }, (_, i) => `word${i}`).join(' ');
+
+describe('TreeStream duration', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('finishes short and long content within the same budget', async () => {
+		for (const text of [SHORT, LONG]) {
+			document.body.innerHTML = '';
+			const { container, unmount } = render(<TreeStream duration={1000}>{text}</TreeStream>);
+			const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+			const elapsed = await timeToComplete(host);
+			expect(host.textContent).toBe(text);
+			expect(elapsed).toBeGreaterThanOrEqual(900);
+			expect(elapsed).toBeLessThanOrEqual(1100);
+			unmount();
+		}
+	});
+
+	it('includes nested streams in the budget', async () => {
+		const { container } = render(
+			<TreeStream duration={1000}>
+				One two three.
+				<TreeStream as="span">{LONG}</TreeStream>
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		const elapsed = await timeToComplete(host);
+		expect(host.textContent).toContain('word119');
+		expect(elapsed).toBeGreaterThanOrEqual(900);
+		expect(elapsed).toBeLessThanOrEqual(1100);
+	});
+
+	it('never ticks faster than minInterval or reveals more than maxSpeed tokens', async () => {
+		const { container } = render(
+			<TreeStream duration={100} minInterval={50} maxSpeed={20}>
+				{LONG}
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await act(async () => {
+			vi.advanceTimersByTime(49);
+		});
+		expect(host.textContent).toBe('');
+		await act(async () => {
+			vi.advanceTimersByTime(1);
+		});
+		// 20 tokens: 10 words and their separators
+		expect(host.textContent).toBe(LONG.split(' ').slice(0, 10).join(' ') + ' ');
+		const elapsed = await timeToComplete(host);
+		expect(elapsed).toBeGreaterThan(500);
+	});
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+import { TreeStream, type StreamProgress, type StreamTick, type TreeStreamHandle } from 'react-tree-stream';
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	act(() => {
+		createRoot(container).render(ui);
+	});
+	return { container };
+}
+
+describe('lifecycle events', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('reports the start and the beginning and end of each unit in order', async () => {
+		const events: string[] = [];
+		render(
+			<TreeStream
+				speed={1}
+				interval={10}
+				onStart={() => events.push('start')}
+				onUnitStart={(unit, index) => events.push(`start ${index} ${unit.type}`)}
+				onUnitComplete={(unit, index) => events.push(`end ${index} ${unit.type}`)}
+				onComplete={() => events.push('complete')}
+			>
+				Hello
+				<hr />
+				<TreeStream speed={1} interval={10}>
+					nested
+				</TreeStream>
+			</TreeStream>,
+		);
+		await tick(10, 10);
+		expect(events).toEqual([
+			'start',
+			'start 0 text_stream',
+			'end 0 text_stream',
+			'start 1 instant_render',
+			'end 1 instant_render',
+			'start 2 nested_stream',
+			'end 2 nested_stream',
+			'complete',
+		]);
+	});
+
+	it('reports the revealed and total tokens of the unit on each tick', async () => {
+		const ticks: StreamTick[] = [];
+		render(
+			<TreeStream speed={2} interval={10} onTick={(t) => ticks.push(t)}>
+				One two three
+			</TreeStream>,
+		);
+		await tick(10, 5);
+		// Whitespace between words counts as a token
+		expect(ticks.map((t) => t.revealed)).toEqual([2, 4, 5]);
+		expect(ticks.every((t) => t.total === 5 && t.unitIndex === 0)).toBe(true);
+		expect(ticks[ticks.length - 1].text).toBe('One two three');
+	});
+
+	it('reports an overall fraction that accounts for nested streams', async () => {
+		const fractions: number[] = [];
+		const onProgress = (p: StreamProgress) => fractions.push(p.fraction!);
+		render(
+			<TreeStream speed={1} interval={10} onProgress={onProgress}>
+				One two
+				<TreeStream speed={1} interval={10}>
+					three four
+				</TreeStream>
+			</TreeStream>,
+		);
+		await tick(10, 15);
+		// Three tokens of the parent, then three of the nested stream
+		expect(fractions[0]).toBe(0);
+		expect(fractions).toContain(0.5);
+		expect(fractions.some((f) => f > 0.5 && f < 1)).toBe(true);
+		expect(fractions[fractions.length - 1]).toBe(1);
+		for (let i = 1; i < fractions.length; i++) expect(fractions[i]).toBeGreaterThanOrEqual(fractions[i - 1]);
+	});
+
+	it('still reports unit events when finished early', async () => {
+		const handle = React.createRef<TreeStreamHandle>();
+		const onUnitComplete = vi.fn();
+		const onTick = vi.fn();
+		render(
+			<TreeStream ref={handle} speed={1} interval={10} onUnitComplete={onUnitComplete} onTick={onTick}>
+				One two three
+				<b>four</b>
+			</TreeStream>,
+		);
+		await tick(10);
+		act(() => handle.current!.finish());
+		expect(onUnitComplete.mock.calls.map(([, index]) => index)).toEqual([0, 1]);
+		expect(onTick).toHaveBeenCalledTimes(1);
+	});
+});
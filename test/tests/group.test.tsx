@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { StreamGroup, TreeStream } from 'react-tree-stream';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	act(() => {
+		root.render(ui);
+	});
+	return { container, root, unmount: () => root.unmount() };
+}
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+const Title = () => (
+	<h1>
+		<TreeStream as="span" speed={1} interval={10}>
+			Welcome aboard
+		</TreeStream>
+	</h1>
+);
+const Sidebar = ({ order }: { order?: number }) => (
+	<aside>
+		<TreeStream as="span" speed={1} interval={10} order={order}>
+			Steps
+		</TreeStream>
+	</aside>
+);
+
+describe('StreamGroup', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('runs streams in separate components one after another', async () => {
+		const onComplete = vi.fn();
+		const { container } = render(
+			<StreamGroup onComplete={onComplete}>
+				<Title />
+				<Sidebar />
+			</StreamGroup>,
+		);
+		const h1 = container.querySelector('h1') as HTMLElement;
+		const aside = container.querySelector('aside') as HTMLElement;
+		await tick(10);
+		expect(h1.textContent).toBe('Welcome');
+		expect(aside.textContent).toBe('');
+		await tick(10, 6);
+		expect(h1.textContent).toBe('Welcome aboard');
+		expect(aside.textContent).toBe('Steps');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('sorts streams by their order prop', async () => {
+		const { container } = render(
+			<StreamGroup>
+				<Title />
+				<Sidebar order={-1} />
+			</StreamGroup>,
+		);
+		const h1 = container.querySelector('h1') as HTMLElement;
+		const aside = container.querySelector('aside') as HTMLElement;
+		await tick(10, 2);
+		expect(aside.textContent).toBe('Steps');
+		expect(h1.textContent).toBe('');
+		await tick(10, 5);
+		expect(h1.textContent).toBe('Welcome aboard');
+	});
+
+	it('moves on when the running stream unmounts', async () => {
+		const App = ({ showTitle }: { showTitle: boolean }) => (
+			<StreamGroup>
+				{showTitle ? <Title /> : null}
+				<Sidebar />
+			</StreamGroup>
+		);
+		const { container, root } = render(<App showTitle />);
+		await tick(10);
+		await act(async () => {
+			root.render(<App showTitle={false} />);
+		});
+		await tick(10, 2);
+		expect(container.querySelector('aside')?.textContent).toBe('Steps');
+	});
+
+	it('leaves nested streams to their parent stream', async () => {
+		const { container } = render(
+			<StreamGroup>
+				<TreeStream speed={1} interval={10}>
+					Outer
+					<TreeStream as="span" speed={1} interval={10}>
+						Inner
+					</TreeStream>
+				</TreeStream>
+			</StreamGroup>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await tick(10, 8);
+		expect(host.textContent).toBe('OuterInner');
+		expect(host.dataset.complete).toBe('true');
+	});
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { TreeStream } from 'react-tree-stream';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	act(() => {
+		root.render(ui);
+	});
+	return { container, root };
+}
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+describe('revealed units stay live', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('renders revealed instant units with their latest props and handlers', async () => {
+		const App = ({ disabled, onClick }: { disabled: boolean; onClick: () => void }) => (
+			<TreeStream speed={1} interval={10}>
+				Press
+				<button disabled={disabled} onClick={onClick}>
+					go
+				</button>
+				when you are ready
+			</TreeStream>
+		);
+		const first = vi.fn();
+		const second = vi.fn();
+		const { container, root } = render(<App disabled onClick={first} />);
+		await tick(10, 4);
+		expect(container.textContent).toBe('Pressgowhen ');
+		const button = container.querySelector('button')!;
+		expect(button.disabled).toBe(true);
+
+		await act(async () => {
+			root.render(<App disabled={false} onClick={second} />);
+		});
+		expect(container.querySelector('button')).toBe(button);
+		expect(button.disabled).toBe(false);
+		act(() => button.click());
+		expect(first).not.toHaveBeenCalled();
+		expect(second).toHaveBeenCalledTimes(1);
+		// The stream carries on from where it was
+		expect(container.textContent).toBe('Pressgowhen ');
+		await tick(10, 8);
+		expect(container.textContent).toBe('Pressgowhen you are ready');
+	});
+
+	it('passes prop updates to revealed nested streams without restarting them', async () => {
+		const onComplete = vi.fn();
+		const App = ({ tone, done }: { tone: string; done: () => void }) => (
+			<TreeStream speed={1} interval={10} onComplete={onComplete}>
+				Intro
+				<TreeStream speed={1} interval={10} className={tone} onComplete={done}>
+					nested words here
+				</TreeStream>
+			</TreeStream>
+		);
+		const first = vi.fn();
+		const second = vi.fn();
+		const { container, root } = render(<App tone="calm" done={first} />);
+		await tick(10, 4);
+		const nested = container.querySelector('.calm')!;
+		expect(nested.textContent).toBe('nested ');
+
+		await act(async () => {
+			root.render(<App tone="bright" done={second} />);
+		});
+		expect(container.querySelector('.bright')).toBe(nested);
+		expect(nested.textContent).toBe('nested ');
+		await tick(10, 10);
+		expect(nested.textContent).toBe('nested words here');
+		expect(first).not.toHaveBeenCalled();
+		expect(second).toHaveBeenCalledTimes(1);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+});
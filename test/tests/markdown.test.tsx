@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { MarkdownStream, renderMarkdown, buildPlan, planContinuation, planSignature } from 'react-tree-stream';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+
+function html(markdown: string, options?: Parameters<typeof renderMarkdown>[1]) {
+	return renderToStaticMarkup(<>{renderMarkdown(markdown, options)}</>);
+}
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	act(() => {
+		root.render(ui);
+	});
+	return { container, root, unmount: () => root.unmount() };
+}
+
+const SAMPLE = [
+	'# Title',
+	'',
+	'Some **bold** and *em* text with `code` and a [link](https://example.com).',
+	'',
+	'- one',
+	'- two with ~~old~~ text',
+	'  - nested',
+	'',
+	'1. first',
+	'2. second',
+	'',
+	'> quoted *words*',
+	'',
+	'```ts',
+	'const x = 1;',
+	'```',
+	'',
+	'---',
+	'',
+	'Done.',
+].join('\n');
+
+describe('renderMarkdown', () => {
+	it('renders block and inline structure', () => {
+		expect(html(SAMPLE)).toBe(
+			'<h1>Title</h1>' +
+				'<p>Some <strong>bold</strong> and <em>em</em> text with <code>code</code> and a <a href="https://example.com">link</a>.</p>' +
+				'<ul><li>one</li><li>two with <del>old</del> text<ul><li>nested</li></ul></li></ul>' +
+				'<ol><li>first</li><li>second</li></ol>' +
+				'<blockquote><p>quoted <em>words</em></p></blockquote>' +
+				'<pre><code class="language-ts">const x = 1;</code></pre>' +
+				'<hr/>' +
+				'<p>Done.</p>',
+		);
+	});
+
+	it('handles unterminated constructs', () => {
+		expect(html('Some **bol')).toBe('<p>Some **bol</p>');
+		expect(html('Some **bol', { pending: true })).toBe('<p>Some <strong>bol</strong></p>');
+		expect(html('Use *nix systems')).toBe('<p>Use *nix systems</p>');
+		expect(html('price is $5 **and')).toBe('<p>price is $5 **and</p>');
+		expect(html('a ~~b')).toBe('<p>a ~~b</p>');
+		expect(html('```js\nconst a')).toBe('<pre><code class="language-js">const a</code></pre>');
+		expect(html('a `b')).toBe('<p>a <code>b</code></p>');
+		expect(html('2 * 3')).toBe('<p>2 * 3</p>');
+	});
+
+	it('holds back trailing markup that may still change while pending', () => {
+		expect(html('Hello [li', { pending: true })).toBe('<p>Hello </p>');
+		expect(html('Hello [li')).toBe('<p>Hello [li</p>');
+		expect(html('Some *', { pending: true })).toBe('<p>Some </p>');
+		expect(html('- a\n1', { pending: true })).toBe('<ul><li>a</li></ul>');
+		expect(html('```\n', { pending: true })).toBe('');
+	});
+
+	it('drops link and image targets with unsafe protocols', () => {
+		expect(html('[click](javascript:alert(1)) me')).toBe('<p>click me</p>');
+		expect(html('[a *b*](JaVaScRiPt:x)')).toBe('<p>a <em>b</em></p>');
+		expect(html('![pic](data:image/svg+xml,x)')).toBe('<p>pic</p>');
+		expect(html('[a](mailto:x@y.z) [b](./c:d) [e](#f) ![g](http://h/i.png)')).toBe(
+			'<p><a href="mailto:x@y.z">a</a> <a href="./c:d">b</a> <a href="#f">e</a> <img src="http://h/i.png" alt="g"/></p>',
+		);
+	});
+
+	it('uses component overrides', () => {
+		const Link = (props: React.ComponentPropsWithoutRef<'a'>) => <a data-external {...props} />;
+		expect(html('[x](/y)', { components: { a: Link, p: 'div' } })).toBe(
+			'<div><a data-external="true" href="/y">x</a></div>',
+		);
+	});
+
+	it('only ever extends the plan while the text grows', () => {
+		let prev = buildPlan(renderMarkdown('', { pending: true }), { deep: true });
+		for (let i = 1; i <= SAMPLE.length; i++) {
+			const next = buildPlan(renderMarkdown(SAMPLE.slice(0, i), { pending: true }), { deep: true });
+			if (planSignature(next) !== planSignature(prev)) {
+				expect(planContinuation(prev, next), JSON.stringify(SAMPLE.slice(0, i))).not.toBeNull();
+			}
+			prev = next;
+		}
+	});
+});
+
+describe('MarkdownStream', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('streams parsed markdown and keeps its position as text grows', async () => {
+		const onComplete = vi.fn();
+		const App = ({ text, pending }: { text: string; pending: boolean }) => (
+			<MarkdownStream speed={1} interval={10} pending={pending} onComplete={onComplete}>
+				{text}
+			</MarkdownStream>
+		);
+		const { container, root } = render(<App text={'# Hi there\n\nSome **bo'} pending />);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await act(async () => {
+			vi.advanceTimersByTime(10);
+		});
+		expect(host.innerHTML).toBe('<h1>Hi</h1>');
+
+		await act(async () => {
+			root.render(<App text={'# Hi there\n\nSome **bold** text'} pending={false} />);
+		});
+		expect(host.innerHTML).toBe('<h1>Hi</h1>');
+		for (let i = 0; i < 30; i++) {
+			await act(async () => {
+				vi.advanceTimersByTime(10);
+			});
+		}
+		expect(host.innerHTML).toBe('<h1>Hi there</h1><p>Some <strong>bold</strong> text</p>');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('keeps the spaces between inline constructs', async () => {
+		const { container } = render(
+			<MarkdownStream speed={10} interval={10}>
+				{'**bold** *italic* and `code` [link](http://x)'}
+			</MarkdownStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		for (let i = 0; i < 30 && host.dataset.complete !== 'true'; i++) {
+			await act(async () => {
+				vi.advanceTimersByTime(10);
+			});
+		}
+		expect(host.dataset.complete).toBe('true');
+		expect(host.textContent).toBe('bold italic and code link');
+	});
+});
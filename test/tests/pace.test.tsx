@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { TreeStream, createNaturalPace, tokenize, type PaceFunction, type PaceUnit } from 'react-tree-stream';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	act(() => {
+		root.render(ui);
+	});
+	return { container, root, unmount: () => root.unmount() };
+}
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+function delays(pace: PaceFunction, text: string, interval = 100) {
+	const tokens = tokenize(text);
+	const unit: PaceUnit = { index: 0, tokens, interval, speed: 1 };
+	return tokens.map((token, index) => pace(token, index, unit).delay);
+}
+
+describe('createNaturalPace', () => {
+	it('pauses longer after sentences, clauses and line breaks', () => {
+		const pace = createNaturalPace({ jitter: 0 });
+		// Tokens: Hi, ' ', there., ' ', Well, ' ', ok,, ' ', next, '\n', line
+		expect(delays(pace, 'Hi there. Well ok, next\nline')).toEqual([
+			100, 100, 100, 600, 100, 100, 100, 250, 100, 100, 400,
+		]);
+	});
+
+	it('jitters delays reproducibly for a given seed', () => {
+		const text = 'one two three four five six';
+		const a = delays(createNaturalPace({ seed: 42 }), text);
+		const b = delays(createNaturalPace({ seed: 42 }), text);
+		const c = delays(createNaturalPace({ seed: 7 }), text);
+		expect(a).toEqual(b);
+		expect(a).not.toEqual(c);
+		for (const delay of a) {
+			expect(delay).toBeGreaterThanOrEqual(65);
+			expect(delay).toBeLessThanOrEqual(135);
+		}
+	});
+});
+
+describe('TreeStream pace', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('uses the delay and count returned by a pace function', async () => {
+		const pace = vi.fn<PaceFunction>((token) => (token === 'slow' ? { delay: 100, count: 1 } : { count: 3 }));
+		const { container } = render(
+			<TreeStream pace={pace} speed={1} interval={10}>
+				a b slow c
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await tick(10);
+		expect(host.textContent).toBe('a b');
+		await tick(10);
+		expect(host.textContent).toBe('a b slow ');
+		await tick(10);
+		expect(host.textContent).toBe('a b slow c');
+		expect(pace).toHaveBeenCalledWith('a', 0, expect.objectContaining({ index: 0, interval: 10, speed: 1 }));
+	});
+
+	it('waits the custom delay before revealing', async () => {
+		const pace: PaceFunction = (token) => (token === 'slow' ? { delay: 100 } : {});
+		const { container } = render(
+			<TreeStream pace={pace} speed={1} interval={10}>
+				a slow
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await tick(10, 2);
+		expect(host.textContent).toBe('a ');
+		await tick(10, 5);
+		expect(host.textContent).toBe('a ');
+		await tick(50);
+		expect(host.textContent).toBe('a slow');
+	});
+
+	it('accepts the natural preset', async () => {
+		const onComplete = vi.fn();
+		const { container } = render(
+			<TreeStream pace="natural" speed={1} interval={10} onComplete={onComplete}>
+				Hello there. How are you?
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await tick(100, 20);
+		expect(host.textContent).toBe('Hello there. How are you?');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+});
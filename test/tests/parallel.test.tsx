@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { TreeStream, type TreeStreamHandle } from 'react-tree-stream';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	act(() => {
+		root.render(ui);
+	});
+	return { container, root, unmount: () => root.unmount() };
+}
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+function Cards({
+	mode,
+	onComplete,
+	handle,
+}: {
+	mode: 'block' | 'parallel' | 'detached';
+	onComplete?: () => void;
+	handle?: React.Ref<TreeStreamHandle>;
+}) {
+	return (
+		<TreeStream nestedMode={mode} speed={1} interval={10} onComplete={onComplete} ref={handle}>
+			<TreeStream as="section" className="a" speed={1} interval={10}>
+				one two three four
+			</TreeStream>
+			<TreeStream as="section" className="b" speed={1} interval={10}>
+				five six seven eight
+			</TreeStream>
+			<p>after</p>
+		</TreeStream>
+	);
+}
+
+describe('nestedMode', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('blocks on each nested stream by default', async () => {
+		const { container } = render(<Cards mode="block" />);
+		await tick(10, 3);
+		expect(container.querySelector('.a')?.textContent).toBe('one two');
+		expect(container.querySelector('.b')).toBeNull();
+	});
+
+	it('runs nested streams alongside the parent in parallel mode', async () => {
+		const onComplete = vi.fn();
+		const { container } = render(<Cards mode="parallel" onComplete={onComplete} />);
+		await tick(10, 3);
+		expect(container.querySelector('.a')?.textContent).toBe('one two');
+		// The second card starts one step later, while the first is still running
+		expect(container.querySelector('.b')?.textContent).toMatch(/^five/);
+		expect(container.querySelector('p')?.textContent).toBe('after');
+		expect(onComplete).not.toHaveBeenCalled();
+		await tick(10, 6);
+		expect(container.querySelector('.a')?.textContent).toBe('one two three four');
+		expect(container.querySelector('.b')?.textContent).toBe('five six seven eight');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		expect(host.dataset.complete).toBe('true');
+	});
+
+	it('completes without waiting in detached mode', async () => {
+		const onComplete = vi.fn();
+		const { container } = render(<Cards mode="detached" onComplete={onComplete} />);
+		await tick(10, 2);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		expect(container.querySelector('.a')?.textContent).not.toBe('one two three four');
+		await tick(10, 8);
+		expect(container.querySelector('.b')?.textContent).toBe('five six seven eight');
+	});
+
+	it('finishes running parallel streams with finish()', async () => {
+		const ref = React.createRef<TreeStreamHandle>();
+		const onComplete = vi.fn();
+		const { container } = render(<Cards mode="parallel" onComplete={onComplete} handle={ref} />);
+		await tick(10, 2);
+		await act(async () => {
+			ref.current?.finish();
+		});
+		expect(container.querySelector('.a')?.textContent).toBe('one two three four');
+		expect(container.querySelector('.b')?.textContent).toBe('five six seven eight');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+});
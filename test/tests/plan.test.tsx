@@ -1,11 +1,24 @@
 import { describe, it, expect } from 'vitest';
 import React, { memo, forwardRef, Fragment } from 'react';
-import { buildPlan, planSignature, TreeStream, type ExecutionUnit, type TreeStreamProps } from 'react-tree-stream';
+import {
+	buildPlan,
+	planContinuation,
+	planMatches,
+	planSignature,
+	TreeStream,
+	STREAMING_MARKER,
+	type ExecutionUnit,
+	type TreeStreamHandle,
+	type TreeStreamProps,
+} from 'react-tree-stream';
 
 const MemoTreeStream = memo(TreeStream);
-const FwdTreeStream = forwardRef<HTMLDivElement, TreeStreamProps<'div'>>(
-	TreeStream as unknown as React.ForwardRefRenderFunction<HTMLDivElement, TreeStreamProps<'div'>>,
+// A user-land forwardRef wrapper, marked so it is detected as a nested stream
+const ForwardedTreeStream = (props: TreeStreamProps<'div'>, ref: React.ForwardedRef<TreeStreamHandle>) => (
+	<TreeStream {...props} ref={ref} />
 );
+(ForwardedTreeStream as unknown as Record<symbol, boolean>)[STREAMING_MARKER] = true;
+const FwdTreeStream = forwardRef(ForwardedTreeStream);
 
 function types(plan: ReturnType<typeof buildPlan>) {
 	return plan.map((u: ExecutionUnit) => u.type);
@@ -46,4 +59,58 @@ describe('plan utilities', () => {
 		expect(planSignature(p1)).toBe(planSignature(p2));
 		expect(planSignature(p1)).not.toBe(planSignature(p3));
 	});
+
+	it('keeps elements as instant units unless deep', () => {
+		const tree = (
+			<p>
+				Hello <strong>world</strong>
+			</p>
+		);
+		expect(types(buildPlan(tree))).toEqual(['instant_render']);
+
+		const plan = buildPlan(tree, { deep: true });
+		expect(types(plan)).toEqual(['text_stream', 'text_stream']);
+		expect(plan.map((u) => (u.type === 'text_stream' ? u.content : null))).toEqual(['Hello ', 'world']);
+		expect(plan[0].path?.map((f) => f.element.type)).toEqual(['p']);
+		expect(plan[1].path?.map((f) => f.element.type)).toEqual(['p', 'strong']);
+	});
+
+	it('keeps childless and nested stream elements as units in deep mode', () => {
+		const plan = buildPlan(
+			<div>
+				<img alt="" />
+				<span dangerouslySetInnerHTML={{ __html: '<b>x</b>' }} />
+				<TreeStream>Nested</TreeStream>
+			</div>,
+			{ deep: true },
+		);
+		expect(types(plan)).toEqual(['instant_render', 'instant_render', 'nested_stream']);
+		expect(plan.every((u) => u.path?.length === 1)).toBe(true);
+	});
+
+	it('includes deep paths in the signature', () => {
+		const p1 = buildPlan(<p>Same</p>, { deep: true });
+		const p2 = buildPlan([<span key="a" />, <p key="b">Same</p>], { deep: true });
+		expect(planSignature(p1)).not.toBe(planSignature(p2.slice(1)));
+		expect(planSignature(p1)).toBe(planSignature(buildPlan(<p>Same</p>, { deep: true })));
+	});
+
+	it('detects plans that only extend the previous plan', () => {
+		const prev = buildPlan(['A', <b key="b" />, 'Hello']);
+		expect(planContinuation(prev, buildPlan(['A', <b key="b" />, 'Hello world']))).toEqual({ grown: 2 });
+		expect(planContinuation(prev, buildPlan(['A', <b key="b" />, 'Hello', <i key="i" />]))).toEqual({
+			grown: null,
+		});
+		expect(planContinuation(prev, buildPlan(['A', <b key="b" />, 'Help']))).toBeNull();
+		expect(planContinuation(prev, buildPlan(['B', <b key="b" />, 'Hello world']))).toBeNull();
+		expect(planContinuation(prev, buildPlan(['A', <b key="b" />]))).toBeNull();
+	});
+
+	it('matches units by key and position', () => {
+		const prev = buildPlan(['A', <b key="b" />, 'C', <i key="i" />]);
+		const next = buildPlan(['A2', <i key="i" />, 'C', <b key="b" />, <TreeStream key="n">N</TreeStream>]);
+		expect(planMatches(prev, next)).toEqual([0, 3, 2, 1, null]);
+		// Same key but a different kind of unit
+		expect(planMatches(buildPlan(['x', 'y']), buildPlan(['x', <b key="1" />]))).toEqual([0, null]);
+	});
 });
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { act } from 'react';
+import { TreeStream, type StreamProgress, type TreeStreamProps } from 'react-tree-stream';
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	let root: Root;
+	act(() => {
+		root = createRoot(container);
+		root.render(ui);
+	});
+	return {
+		container,
+		unmount: () => act(() => root.unmount()),
+	};
+}
+
+function Message(props: Partial<TreeStreamProps<'div'>>) {
+	return (
+		<TreeStream speed={1} interval={10} {...props}>
+			One two three
+			<em>four</em>
+		</TreeStream>
+	);
+}
+
+describe('progress', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+		sessionStorage.clear();
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('reports serializable progress as the stream moves forward', async () => {
+		const snapshots: StreamProgress[] = [];
+		render(<Message onProgress={(p) => snapshots.push(p)} />);
+		await tick(10, 3);
+		const last = snapshots[snapshots.length - 1];
+		expect(last).toMatchObject({ unitIndex: 0, tokenIndex: 3, complete: false });
+		expect(JSON.parse(JSON.stringify(last))).toEqual(last);
+		await tick(10, 10);
+		expect(snapshots[snapshots.length - 1]).toMatchObject({ unitIndex: 2, tokenIndex: 0, complete: true });
+	});
+
+	it('resumes from initialProgress after a remount instead of replaying', async () => {
+		let progress: StreamProgress | null = null;
+		const first = render(<Message onProgress={(p) => (progress = p)} />);
+		await tick(10, 3);
+		expect(first.container.textContent).toBe('One two');
+		first.unmount();
+
+		const onComplete = vi.fn();
+		const second = render(<Message initialProgress={progress} onComplete={onComplete} />);
+		expect(second.container.textContent).toBe('One two');
+		await tick(10, 3);
+		expect(second.container.textContent).toBe('One two three');
+		await tick(10, 5);
+		expect(second.container.textContent).toBe('One two threefour');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('restores completed progress instantly without firing onComplete', async () => {
+		let progress: StreamProgress | null = null;
+		const first = render(<Message onProgress={(p) => (progress = p)} />);
+		await tick(10, 15);
+		expect(progress).toMatchObject({ complete: true });
+		first.unmount();
+
+		const onComplete = vi.fn();
+		const { container } = render(<Message initialProgress={progress} onComplete={onComplete} />);
+		const wrapper = container.firstElementChild as HTMLElement;
+		expect(container.textContent).toBe('One two threefour');
+		expect(wrapper.getAttribute('data-complete')).toBe('true');
+		await tick(10, 5);
+		expect(onComplete).not.toHaveBeenCalled();
+	});
+
+	it('continues with content added after the progress was recorded', async () => {
+		let progress: StreamProgress | null = null;
+		const first = render(<TreeStream onProgress={(p) => (progress = p)}>{['Hello world']}</TreeStream>);
+		await tick(50, 5);
+		expect(progress).toMatchObject({ complete: true });
+		first.unmount();
+
+		const onComplete = vi.fn();
+		const { container } = render(
+			<TreeStream speed={1} interval={10} initialProgress={progress} onComplete={onComplete}>
+				{['Hello world', ' and more']}
+			</TreeStream>,
+		);
+		expect(container.textContent).toBe('Hello world');
+		await tick(10, 3);
+		expect(container.textContent).toBe('Hello world and');
+		await tick(10, 5);
+		expect(container.textContent).toBe('Hello world and more');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('ignores progress recorded for different content', async () => {
+		let progress: StreamProgress | null = null;
+		const first = render(<Message onProgress={(p) => (progress = p)} />);
+		await tick(10, 3);
+		first.unmount();
+
+		const { container } = render(
+			<TreeStream speed={1} interval={10} initialProgress={progress}>
+				Another message
+			</TreeStream>,
+		);
+		expect(container.textContent).toBe('');
+		await tick(10);
+		expect(container.textContent).toBe('Another');
+	});
+
+	it('persists progress under storageKey', async () => {
+		const first = render(<Message storageKey="message-1" />);
+		await tick(10, 3);
+		expect(JSON.parse(sessionStorage.getItem('message-1')!)).toMatchObject({ unitIndex: 0, tokenIndex: 3 });
+		first.unmount();
+
+		const { container } = render(<Message storageKey="message-1" />);
+		expect(container.textContent).toBe('One two');
+		await tick(10, 15);
+		expect(container.textContent).toBe('One two threefour');
+		expect(JSON.parse(sessionStorage.getItem('message-1')!)).toMatchObject({ complete: true });
+
+		const other = render(<Message storageKey="message-2" />);
+		expect(other.container.textContent).toBe('');
+	});
+
+	it('restores the progress of a running nested stream', async () => {
+		let progress: StreamProgress | null = null;
+		const ui = (initialProgress?: StreamProgress | null) => (
+			<TreeStream speed={1} interval={10} onProgress={(p) => (progress = p)} initialProgress={initialProgress}>
+				Intro
+				<TreeStream speed={1} interval={10}>
+					alpha beta gamma
+				</TreeStream>
+				Outro
+			</TreeStream>
+		);
+		const first = render(ui());
+		await tick(10, 5);
+		expect(first.container.textContent).toBe('Introalpha beta');
+		expect(progress).toMatchObject({ unitIndex: 1, nested: { 1: { unitIndex: 0, tokenIndex: 3 } } });
+		first.unmount();
+
+		const second = render(ui(progress));
+		expect(second.container.textContent).toBe('Introalpha beta');
+		await tick(10, 10);
+		expect(second.container.textContent).toBe('Introalpha beta gammaOutro');
+	});
+});
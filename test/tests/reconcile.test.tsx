@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { TreeStream } from 'react-tree-stream';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	act(() => {
+		root.render(ui);
+	});
+	return { container, root };
+}
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+describe('keyed plan changes', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	const Draft = ({ title, body, note = false }: { title: string; body: string; note?: boolean }) => (
+		<TreeStream interval={10} speed={1} streamBy="character">
+			{title}
+			<hr />
+			{note && <em key="note">!</em>}
+			{body}
+		</TreeStream>
+	);
+
+	it('re-streams only the diverging suffix of an edited unit and keeps later units', async () => {
+		const { container, root } = render(<Draft title="Hello world" body="Body" />);
+		await tick(10, 40);
+		expect(container.textContent).toBe('Hello worldBody');
+
+		await act(async () => {
+			root.render(<Draft title="Hello there" body="Body" />);
+		});
+		expect(container.textContent).toBe('Hello Body');
+		expect(container.querySelector('hr')).not.toBeNull();
+		await tick(10, 2);
+		expect(container.textContent).toBe('Hello thBody');
+		await tick(10, 10);
+		expect(container.textContent).toBe('Hello thereBody');
+		expect((container.firstElementChild as HTMLElement).dataset.complete).toBe('true');
+	});
+
+	it('keeps revealed units when a unit being streamed changes', async () => {
+		const { container, root } = render(<Draft title="Title" body="First draft" />);
+		await tick(10, 10);
+		expect(container.textContent).toBe('TitleFirs');
+		const hr = container.querySelector('hr');
+
+		await act(async () => {
+			root.render(<Draft title="Title" body="Fine draft" />);
+		});
+		expect(container.textContent).toBe('TitleFi');
+		expect(container.querySelector('hr')).toBe(hr);
+		await tick(10, 12);
+		expect(container.textContent).toBe('TitleFine draft');
+	});
+
+	it('removes and inserts units without restarting', async () => {
+		const onComplete = vi.fn();
+		const App = ({ note }: { note: boolean }) => (
+			<TreeStream interval={10} speed={1} streamBy="character" onComplete={onComplete}>
+				Intro
+				{note && <em key="note">!</em>}
+				Outro
+			</TreeStream>
+		);
+		const { container, root } = render(<App note />);
+		await tick(10, 20);
+		expect(container.textContent).toBe('Intro!Outro');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+
+		await act(async () => {
+			root.render(<App note={false} />);
+		});
+		expect(container.textContent).toBe('IntroOutro');
+		expect((container.firstElementChild as HTMLElement).dataset.complete).toBe('true');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+
+		await act(async () => {
+			root.render(<App note />);
+		});
+		await tick(0, 3);
+		expect(container.textContent).toBe('Intro!Outro');
+		expect(onComplete).toHaveBeenCalledTimes(2);
+	});
+});
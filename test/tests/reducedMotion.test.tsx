@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { TreeStream } from 'react-tree-stream';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	act(() => {
+		root.render(ui);
+	});
+	return { container, root, unmount: () => root.unmount() };
+}
+
+// Minimal controllable matchMedia for the prefers-reduced-motion query
+function mockReducedMotion(initial: boolean) {
+	const listeners = new Set<() => void>();
+	const query = {
+		matches: initial,
+		media: '(prefers-reduced-motion: reduce)',
+		addEventListener: (_: string, cb: () => void) => listeners.add(cb),
+		removeEventListener: (_: string, cb: () => void) => listeners.delete(cb),
+	};
+	vi.stubGlobal('matchMedia', () => query);
+	return (matches: boolean) => {
+		query.matches = matches;
+		listeners.forEach((cb) => cb());
+	};
+}
+
+describe('reducedMotion', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	it('reveals everything at once when the user prefers reduced motion', async () => {
+		mockReducedMotion(true);
+		const calls: string[] = [];
+		const { container } = render(
+			<TreeStream speed={1} interval={10} onComplete={() => calls.push('parent')}>
+				Hello world
+				<TreeStream as="span" speed={1} interval={10} onComplete={() => calls.push('child')}>
+					nested text
+				</TreeStream>
+				after
+			</TreeStream>,
+		);
+		await act(async () => {});
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		expect(host.textContent).toBe('Hello worldnested textafter');
+		expect(host.dataset.complete).toBe('true');
+		expect(calls).toEqual(['child', 'parent']);
+	});
+
+	it('animates as usual when reduced motion is not preferred', async () => {
+		mockReducedMotion(false);
+		const { container } = render(
+			<TreeStream speed={1} interval={10}>
+				Hello world
+			</TreeStream>,
+		);
+		await act(async () => {
+			vi.advanceTimersByTime(10);
+		});
+		expect(container.textContent).toBe('Hello');
+	});
+
+	it('finishes the remaining content when the preference changes mid-stream', async () => {
+		const setReduced = mockReducedMotion(false);
+		const onComplete = vi.fn();
+		const { container } = render(
+			<TreeStream speed={1} interval={10} onComplete={onComplete}>
+				one two three
+			</TreeStream>,
+		);
+		await act(async () => {
+			vi.advanceTimersByTime(10);
+		});
+		expect(container.textContent).toBe('one');
+		await act(async () => {
+			setReduced(true);
+		});
+		expect(container.textContent).toBe('one two three');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('can be forced on or off regardless of the preference', async () => {
+		mockReducedMotion(true);
+		const { container } = render(
+			<>
+				<TreeStream className="never" reducedMotion="never" speed={1} interval={10}>
+					one two
+				</TreeStream>
+				<TreeStream className="always" reducedMotion="always" speed={1} interval={10}>
+					three four
+				</TreeStream>
+			</>,
+		);
+		await act(async () => {});
+		expect(container.querySelector('.never')?.textContent).toBe('');
+		expect(container.querySelector('.always')?.textContent).toBe('three four');
+	});
+
+	it('applies to nested streams through the parent setting', async () => {
+		mockReducedMotion(false);
+		const { container } = render(
+			<TreeStream reducedMotion="always" speed={1} interval={10}>
+				<TreeStream as="span" speed={1} interval={10}>
+					nested words here
+				</TreeStream>
+			</TreeStream>,
+		);
+		await act(async () => {});
+		expect(container.querySelector('span')?.textContent).toBe('nested words here');
+	});
+});
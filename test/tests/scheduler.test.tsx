@@ -2,7 +2,27 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import { act } from 'react';
-import { TreeStream } from 'react-tree-stream';
+import {
+	TreeStream,
+	SchedulerContext,
+	createFrameScheduler,
+	createVirtualClock,
+	withTransition,
+	type Scheduler,
+} from 'react-tree-stream';
+
+// Count the callbacks run through startTransition, which withTransition wraps tasks in
+const transitions = vi.hoisted(() => ({ count: 0 }));
+vi.mock('react', async (importOriginal) => {
+	const actual = await importOriginal<typeof import('react')>();
+	return {
+		...actual,
+		startTransition: (fn: () => void) => {
+			transitions.count += 1;
+			actual.startTransition(fn);
+		},
+	};
+});
 
 function render(ui: React.ReactElement) {
 	const container = document.createElement('div');
@@ -50,3 +70,130 @@ describe('useSequentialScheduler integration', () => {
 		expect(host.textContent).toBe('W');
 	});
 });
+
+describe('pluggable schedulers', () => {
+	beforeEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	it('streams on a virtual clock without real or fake timers', () => {
+		const clock = createVirtualClock({ run: act });
+		const onComplete = vi.fn();
+		const { container } = render(
+			<TreeStream scheduler={clock} speed={1} interval={100} onComplete={onComplete}>
+				One two three
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		clock.advance(99);
+		expect(host.textContent).toBe('');
+		clock.advance(1);
+		expect(host.textContent).toBe('One');
+		clock.advance(200);
+		expect(host.textContent).toBe('One two');
+		clock.runAll();
+		expect(host.textContent).toBe('One two three');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		expect(clock.pending()).toBe(0);
+	});
+
+	it('reads the scheduler from context, including nested streams', () => {
+		const clock = createVirtualClock({ run: act });
+		const { container } = render(
+			<SchedulerContext.Provider value={clock}>
+				<TreeStream speed={1} interval={10}>
+					Outer
+					<TreeStream as="span" speed={1} interval={10}>
+						Inner
+					</TreeStream>
+				</TreeStream>
+			</SchedulerContext.Provider>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		clock.runAll();
+		expect(host.textContent).toBe('OuterInner');
+		expect(host.dataset.complete).toBe('true');
+	});
+
+	it('passes an explicit scheduler down to nested streams', () => {
+		const clock = createVirtualClock({ run: act });
+		const { container } = render(
+			<TreeStream scheduler={clock} speed={1} interval={10}>
+				<TreeStream as="span" speed={1} interval={10}>
+					Inner text
+				</TreeStream>
+			</TreeStream>,
+		);
+		clock.runAll();
+		expect(container.querySelector('span')?.textContent).toBe('Inner text');
+	});
+
+	it('runs many streams from one animation frame loop', () => {
+		const frames: FrameRequestCallback[] = [];
+		let time = 0;
+		vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => frames.push(cb));
+		vi.spyOn(performance, 'now').mockImplementation(() => time);
+		try {
+			const scheduler = createFrameScheduler();
+			const { container } = render(
+				<>
+					{Array.from({ length: 5 }, (_, i) => (
+						<TreeStream key={i} scheduler={scheduler} speed={1} interval={30}>
+							a b
+						</TreeStream>
+					))}
+				</>,
+			);
+			const frame = (t: number) => {
+				time = t;
+				const pending = frames.splice(0);
+				act(() => pending.forEach((cb) => cb(t)));
+				return pending.length;
+			};
+			// One shared frame request for all five streams
+			expect(frame(16)).toBe(1);
+			expect(frame(32)).toBe(1);
+			const hosts = Array.from(container.querySelectorAll('[data-tree-stream]'));
+			expect(hosts.map((h) => h.textContent)).toEqual(['a', 'a', 'a', 'a', 'a']);
+			for (let t = 48; frames.length > 0 && t < 1000; t += 16) frame(t);
+			expect(hosts.map((h) => h.textContent)).toEqual(['a b', 'a b', 'a b', 'a b', 'a b']);
+		} finally {
+			vi.unstubAllGlobals();
+			vi.restoreAllMocks();
+		}
+	});
+
+	it('dispatches ticks inside startTransition with withTransition', () => {
+		const clock = createVirtualClock({ run: act });
+		// Transitions started by each task the stream schedules
+		const perTask: number[] = [];
+		const spy: Scheduler = {
+			schedule: (fn, delay) =>
+				clock.schedule(() => {
+					const before = transitions.count;
+					fn();
+					perTask.push(transitions.count - before);
+				}, delay),
+		};
+		const { container } = render(
+			<TreeStream scheduler={withTransition(spy)} speed={1} interval={10}>
+				Hello world
+			</TreeStream>,
+		);
+		clock.runAll();
+		expect(container.textContent).toBe('Hello world');
+		expect(perTask.length).toBeGreaterThan(0);
+		expect(perTask.every((count) => count === 1)).toBe(true);
+
+		// Without the wrapper, nothing runs in a transition
+		perTask.length = 0;
+		render(
+			<TreeStream scheduler={spy} speed={1} interval={10}>
+				Hello again
+			</TreeStream>,
+		);
+		clock.runAll();
+		expect(perTask.length).toBeGreaterThan(0);
+		expect(perTask.every((count) => count === 0)).toBe(true);
+	});
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+import { TreeStream, type SkipTrigger } from 'react-tree-stream';
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	act(() => {
+		createRoot(container).render(ui);
+	});
+	return { container };
+}
+
+function press(key: string, target: EventTarget = document.body) {
+	act(() => {
+		target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
+	});
+}
+
+describe('skipOn', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('reveals everything, including nested streams, when the stream is clicked', async () => {
+		const onComplete = vi.fn();
+		const { container } = render(
+			<TreeStream skipOn="click" onComplete={onComplete} speed={1} interval={10}>
+				Intro
+				<TreeStream speed={1} interval={10}>
+					first nested
+				</TreeStream>
+				Middle
+				<TreeStream speed={1} interval={10}>
+					second nested
+				</TreeStream>
+				Outro
+			</TreeStream>,
+		);
+		await tick(10, 4);
+		expect(container.textContent).toBe('Introfirst ');
+		await act(async () => {
+			(container.querySelector('[data-tree-stream]') as HTMLElement).click();
+		});
+		expect(container.textContent).toBe('Introfirst nestedMiddlesecond nestedOutro');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		await act(async () => {
+			(container.querySelector('[data-tree-stream]') as HTMLElement).click();
+		});
+		await tick(10, 5);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('skips on key presses, except Tab, shortcuts and typing in form fields', async () => {
+		const onComplete = vi.fn();
+		const input = document.createElement('input');
+		document.body.appendChild(input);
+		const { container } = render(
+			<TreeStream skipOn="keydown" onComplete={onComplete} speed={1} interval={10}>
+				One two three
+			</TreeStream>,
+		);
+		await tick(10);
+		press('Tab');
+		press('a', input);
+		act(() => {
+			document.body.dispatchEvent(new KeyboardEvent('keydown', { key: 'c', ctrlKey: true, bubbles: true }));
+		});
+		expect(container.textContent).toBe('One');
+		press(' ');
+		expect(container.textContent).toBe('One two three');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('does not skip on clicks with skipOn="keydown"', async () => {
+		const { container } = render(
+			<TreeStream skipOn="keydown" speed={1} interval={10}>
+				One two three
+			</TreeStream>,
+		);
+		await tick(10);
+		act(() => (container.firstElementChild as HTMLElement).click());
+		expect(container.textContent).toBe('One');
+	});
+
+	it('subscribes a custom trigger once while the stream runs', async () => {
+		let skip: (() => void) | undefined;
+		const unsubscribe = vi.fn();
+		const trigger = vi.fn<SkipTrigger>((fn) => {
+			skip = fn;
+			return unsubscribe;
+		});
+		const { container } = render(
+			<TreeStream skipOn={(fn) => trigger(fn)} speed={1} interval={10}>
+				One two three four
+			</TreeStream>,
+		);
+		await tick(10, 3);
+		expect(trigger).toHaveBeenCalledTimes(1);
+		act(() => skip!());
+		expect(container.textContent).toBe('One two three four');
+		expect(unsubscribe).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { TreeStream } from 'react-tree-stream';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	act(() => {
+		root.render(ui);
+	});
+	return { container, root, unmount: () => root.unmount() };
+}
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			for (let j = 0; j < 10; j++) await Promise.resolve();
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+function controlledStream<T>() {
+	let controller!: ReadableStreamDefaultController<T>;
+	const cancel = vi.fn();
+	const stream = new ReadableStream<T>({
+		start(c) {
+			controller = c;
+		},
+		cancel,
+	});
+	return { stream, controller, cancel };
+}
+
+describe('TreeStream source', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('streams text from a ReadableStream and completes after it ends', async () => {
+		const { stream, controller } = controlledStream<string>();
+		const onComplete = vi.fn();
+		const onSourceEnd = vi.fn();
+		const { container } = render(
+			<TreeStream
+				source={stream}
+				streamBy="character"
+				speed={1}
+				interval={10}
+				onComplete={onComplete}
+				onSourceEnd={onSourceEnd}
+			/>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+
+		controller.enqueue('Hi');
+		await tick(0);
+		await tick(10, 4);
+		expect(host.textContent).toBe('Hi');
+		expect(host.dataset.complete).toBe('false');
+		expect(onComplete).not.toHaveBeenCalled();
+
+		controller.enqueue(' you');
+		await tick(0);
+		await tick(10);
+		expect(host.textContent).toBe('Hi ');
+
+		controller.close();
+		await tick(10, 10);
+		expect(host.textContent).toBe('Hi you');
+		expect(host.dataset.complete).toBe('true');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		expect(onSourceEnd).toHaveBeenCalledWith('Hi you');
+	});
+
+	it('decodes byte streams and fetch responses after the children', async () => {
+		const bytes = new TextEncoder().encode('héllo');
+		const response = new Response(
+			new ReadableStream<Uint8Array>({
+				start(c) {
+					c.enqueue(bytes.slice(0, 2));
+					c.enqueue(bytes.slice(2));
+					c.close();
+				},
+			}),
+		);
+		const onComplete = vi.fn();
+		const { container } = render(
+			<TreeStream source={response} speed={10} interval={10} onComplete={onComplete}>
+				{'Said: '}
+			</TreeStream>,
+		);
+		await tick(10, 10);
+		expect(container.textContent).toBe('Said: héllo');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('reads async iterables', async () => {
+		async function* tokens() {
+			yield 'one ';
+			yield 'two';
+		}
+		const { container } = render(<TreeStream source={tokens()} speed={10} interval={10} />);
+		await tick(10, 10);
+		expect(container.textContent).toBe('one two');
+	});
+
+	it('reports errors and completes with the text received', async () => {
+		const { stream, controller } = controlledStream<string>();
+		const onComplete = vi.fn();
+		const onSourceError = vi.fn();
+		const { container } = render(
+			<TreeStream
+				source={stream}
+				speed={10}
+				interval={10}
+				onComplete={onComplete}
+				onSourceError={onSourceError}
+			/>,
+		);
+		controller.enqueue('partial');
+		await tick(10, 3);
+		controller.error(new Error('network'));
+		await tick(10, 3);
+		expect(onSourceError).toHaveBeenCalledTimes(1);
+		expect((onSourceError.mock.calls[0][0] as Error).message).toBe('network');
+		expect(container.textContent).toBe('partial');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('reads each source once under StrictMode', async () => {
+		const { stream, controller } = controlledStream<string>();
+		async function* tokens() {
+			yield 'three ';
+			yield 'four';
+		}
+		const onSourceEnd = vi.fn();
+		const onSourceError = vi.fn();
+		const { container } = render(
+			<React.StrictMode>
+				<TreeStream source={stream} speed={10} interval={10} onSourceError={onSourceError} />
+				<TreeStream source={tokens()} speed={10} interval={10} onSourceEnd={onSourceEnd} />
+			</React.StrictMode>,
+		);
+		controller.enqueue('one two');
+		controller.close();
+		await tick(10, 10);
+		expect(onSourceError).not.toHaveBeenCalled();
+		expect(container.textContent).toBe('one twothree four');
+		expect(onSourceEnd).toHaveBeenCalledTimes(1);
+		expect(onSourceEnd).toHaveBeenCalledWith('three four');
+	});
+
+	it('cancels the reader on unmount', async () => {
+		const { stream, controller, cancel } = controlledStream<string>();
+		const { unmount } = render(<TreeStream source={stream} />);
+		controller.enqueue('x');
+		await tick(10);
+		act(() => unmount());
+		await tick(0);
+		expect(cancel).toHaveBeenCalledTimes(1);
+	});
+});
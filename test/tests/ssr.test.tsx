@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import { hydrateRoot, createRoot } from 'react-dom/client';
+import { act } from 'react';
+import { TreeStream, type TreeStreamProps } from 'react-tree-stream';
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+function hydrate(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	container.innerHTML = renderToString(ui);
+	document.body.appendChild(container);
+	act(() => {
+		hydrateRoot(container, ui);
+	});
+	return { container };
+}
+
+function App(props: Partial<TreeStreamProps<'div'>>) {
+	return (
+		<TreeStream speed={1} interval={10} {...props}>
+			One two three
+			<em>four</em>
+		</TreeStream>
+	);
+}
+
+describe('server rendering', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it('renders an empty wrapper by default', () => {
+		const html = renderToString(<App />);
+		expect(html).toContain('data-tree-stream="true"');
+		expect(html).not.toContain('One');
+	});
+
+	it('renders the full content or a prefix on the server', () => {
+		const full = document.createElement('div');
+		full.innerHTML = renderToString(<App ssr="static" />);
+		expect(full.textContent).toBe('One two threefour');
+		const prefix = document.createElement('div');
+		prefix.innerHTML = renderToString(<App ssr="static" ssrPrefix={3} />);
+		expect(prefix.textContent).toBe('One two');
+	});
+
+	it('hydrates static content without a mismatch and completes', async () => {
+		const onComplete = vi.fn();
+		const ui = <App ssr="static" onComplete={onComplete} />;
+		const container = document.createElement('div');
+		container.innerHTML = renderToString(ui);
+		const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+		await act(async () => {
+			hydrateRoot(container, ui);
+		});
+		expect(errors).not.toHaveBeenCalled();
+		expect(container.textContent).toBe('One two threefour');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('continues streaming after a static prefix', async () => {
+		const { container } = hydrate(<App ssr="static" ssrPrefix={3} />);
+		expect(container.textContent).toBe('One two');
+		await tick(10, 3);
+		expect(container.textContent).toBe('One two three');
+		await tick(10, 3);
+		expect(container.textContent).toBe('One two threefour');
+	});
+
+	it('replays the stream after hydration while keeping the wrapper height', async () => {
+		vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue({ height: 120 } as DOMRect);
+		const { container } = hydrate(<App ssr="replay" />);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		expect(host.style.minHeight).toBe('120px');
+		await tick(10);
+		expect(host.textContent).toBe('One');
+		await tick(10, 8);
+		expect(host.textContent).toBe('One two threefour');
+		expect(host.style.minHeight).toBe('');
+	});
+
+	it('streams from the start on a client-only render', async () => {
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		act(() => {
+			createRoot(container).render(<App ssr="static" />);
+		});
+		expect(container.textContent).toBe('');
+		await tick(10);
+		expect(container.textContent).toBe('One');
+	});
+});
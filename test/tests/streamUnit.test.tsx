@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React, { useEffect, useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+import { TreeStream, buildPlan, markStreamable, useStreamUnit, type TreeStreamHandle } from 'react-tree-stream';
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	act(() => {
+		createRoot(container).render(ui);
+	});
+	return { container };
+}
+
+// Counts up to `to`, one step every 10ms, following the parent's signals
+function Counter({ to }: { to: number }) {
+	const unit = useStreamUnit();
+	const [value, setValue] = useState(0);
+	useEffect(() => {
+		if (unit.finishing) setValue(to);
+		else if (unit.started && !unit.paused && value < to) {
+			const id = setTimeout(() => setValue((v) => v + 1), 10);
+			return () => clearTimeout(id);
+		}
+	}, [unit.started, unit.paused, unit.finishing, value, to]);
+	useEffect(() => {
+		if (value === to) unit.complete();
+	}, [value, to, unit]);
+	return <b>[{value}]</b>;
+}
+const CountUp = markStreamable(Counter);
+
+describe('custom stream units', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('are sequenced like nested streams', async () => {
+		const onComplete = vi.fn();
+		const { container } = render(
+			<TreeStream speed={1} interval={10} onComplete={onComplete}>
+				Total:
+				<CountUp to={3} />
+				done
+			</TreeStream>,
+		);
+		await tick(10);
+		expect(container.textContent).toBe('Total:');
+		await tick(10);
+		expect(container.textContent).toBe('Total:[0]');
+		await tick(10, 3);
+		expect(container.textContent).toBe('Total:[3]');
+		expect(onComplete).not.toHaveBeenCalled();
+		await tick(10, 3);
+		expect(container.textContent).toBe('Total:[3]done');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('are detected through memo and forwardRef', () => {
+		const Plain = () => <b>plain</b>;
+		const Inner = (props: { to: number }) => <Counter {...props} />;
+		const MarkedMemo = markStreamable(React.memo(Inner));
+		const MemoOfMarked = React.memo(markStreamable(Inner));
+		const Forwarded = React.forwardRef<HTMLElement, { to: number }>(
+			markStreamable((props, _ref) => <Counter {...props} />),
+		);
+		const plan = buildPlan([
+			<MarkedMemo key="a" to={1} />,
+			<MemoOfMarked key="b" to={1} />,
+			<Forwarded key="c" to={1} />,
+			<Plain key="d" />,
+		]);
+		expect(plan.map((unit) => unit.type)).toEqual([
+			'nested_stream',
+			'nested_stream',
+			'nested_stream',
+			'instant_render',
+		]);
+	});
+
+	it('follow pause, resume and finish', async () => {
+		const handle = React.createRef<TreeStreamHandle>();
+		const onComplete = vi.fn();
+		const { container } = render(
+			<TreeStream ref={handle} speed={1} interval={10} onComplete={onComplete}>
+				Total:
+				<CountUp to={10} />
+				done
+			</TreeStream>,
+		);
+		await tick(10, 3);
+		expect(container.textContent).toBe('Total:[1]');
+		act(() => handle.current!.pause());
+		await tick(10, 5);
+		expect(container.textContent).toBe('Total:[1]');
+		act(() => handle.current!.resume());
+		await tick(10);
+		expect(container.textContent).toBe('Total:[2]');
+		await act(async () => handle.current!.finish());
+		expect(container.textContent).toBe('Total:[10]done');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('run on their own outside a TreeStream', async () => {
+		const { container } = render(<CountUp to={2} />);
+		await tick(10, 2);
+		expect(container.textContent).toBe('[2]');
+	});
+});
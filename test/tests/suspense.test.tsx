@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+import { TreeStream, type TreeStreamHandle } from 'react-tree-stream';
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	act(() => {
+		createRoot(container).render(ui);
+	});
+	return { container };
+}
+
+// A lazy component that loads once `load()` is called
+function lazyChart() {
+	let load!: () => void;
+	const promise = new Promise<{ default: React.ComponentType }>((resolve) => {
+		load = () => resolve({ default: () => <b>chart</b> });
+	});
+	const Chart = React.lazy(() => promise);
+	return {
+		Chart,
+		load: () =>
+			act(async () => {
+				load();
+				await promise;
+			}),
+	};
+}
+
+describe('suspense', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('holds the stream at a lazy unit until it has loaded', async () => {
+		const { Chart, load } = lazyChart();
+		const { container } = render(
+			<TreeStream suspense={{ fallback: <i>loading</i> }} speed={1} interval={10}>
+				Intro
+				<Chart />
+				Outro
+			</TreeStream>,
+		);
+		await tick(10, 2);
+		expect(container.textContent).toBe('Introloading');
+		await tick(10, 10);
+		expect(container.textContent).toBe('Introloading');
+		expect(container.querySelector('[data-streaming="true"]')).not.toBeNull();
+		await load();
+		expect(container.textContent).toBe('Introchart');
+		await tick(10, 2);
+		expect(container.textContent).toBe('IntrochartOutro');
+	});
+
+	it('reveals later content in order without suspense', async () => {
+		const { Chart, load } = lazyChart();
+		const { container } = render(
+			<TreeStream speed={1} interval={10}>
+				Intro
+				<React.Suspense fallback={null}>
+					<Chart />
+				</React.Suspense>
+				Outro
+			</TreeStream>,
+		);
+		await tick(10, 4);
+		expect(container.textContent).toBe('IntroOutro');
+		await load();
+		expect(container.textContent).toBe('IntrochartOutro');
+	});
+
+	it('moves on after the timeout and shows the unit in place once it loads', async () => {
+		const { Chart, load } = lazyChart();
+		const onUnitComplete = vi.fn();
+		const { container } = render(
+			<TreeStream
+				suspense={{ fallback: '…', timeout: 50 }}
+				onUnitComplete={(_, index) => onUnitComplete(index)}
+				speed={1}
+				interval={10}
+			>
+				Intro
+				<Chart />
+				Outro
+			</TreeStream>,
+		);
+		await tick(10, 2);
+		expect(container.textContent).toBe('Intro…');
+		await tick(50);
+		await tick(10, 2);
+		expect(container.textContent).toBe('Intro…Outro');
+		expect(onUnitComplete.mock.calls.map(([index]) => index)).toEqual([0, 1, 2]);
+		await load();
+		expect(container.textContent).toBe('IntrochartOutro');
+	});
+
+	it('does not wait for suspended units on finish', async () => {
+		const { Chart, load } = lazyChart();
+		const handle = React.createRef<TreeStreamHandle>();
+		const onComplete = vi.fn();
+		const { container } = render(
+			<TreeStream ref={handle} suspense onComplete={onComplete} speed={1} interval={10}>
+				Intro
+				<Chart />
+				Outro
+			</TreeStream>,
+		);
+		await tick(10, 2);
+		act(() => handle.current!.finish());
+		expect(container.textContent).toBe('IntroOutro');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		await load();
+		expect(container.textContent).toBe('IntrochartOutro');
+	});
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { TreeStream, tokenize, type Tokenizer } from 'react-tree-stream';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	act(() => {
+		root.render(ui);
+	});
+	return { container, root, unmount: () => root.unmount() };
+}
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+describe('tokenize', () => {
+	it('splits words and characters as before', () => {
+		expect(tokenize('Hello big world')).toEqual(['Hello', ' ', 'big', ' ', 'world']);
+		expect(tokenize('abc', 'character')).toEqual(['a', 'b', 'c']);
+	});
+
+	it('splits sentences, keeping trailing whitespace with each sentence', () => {
+		expect(tokenize('First one. Second? "Third!" Fourth', 'sentence')).toEqual([
+			'First one. ',
+			'Second? ',
+			'"Third!" ',
+			'Fourth',
+		]);
+		expect(tokenize('Title\n\nBody text.', 'sentence')).toEqual(['Title\n\n', 'Body text.']);
+		expect(tokenize('Version 1.2 is out.', 'sentence')).toEqual(['Version 1.2 is out.']);
+	});
+
+	it('splits lines and paragraphs', () => {
+		expect(tokenize('a\nb\n\nc\n', 'line')).toEqual(['a\n', 'b\n', '\n', 'c\n']);
+		expect(tokenize('one\ntwo\n\n  three\n\n\nfour', 'paragraph')).toEqual([
+			'one\ntwo\n\n  ',
+			'three\n\n\n',
+			'four',
+		]);
+	});
+
+	it('calls custom tokenizers with the unit context', () => {
+		const custom = vi.fn<Tokenizer>((text) => [text]);
+		expect(tokenize('abc', custom, { unitIndex: 2, revealed: 'x' })).toEqual(['abc']);
+		expect(custom).toHaveBeenCalledWith('abc', { unitIndex: 2, revealed: 'x' });
+	});
+
+	it('always returns tokens that join back to the input', () => {
+		const text = 'Hi there.  How are you?\n\nFine!\nThanks.';
+		for (const mode of ['word', 'character', 'sentence', 'line', 'paragraph'] as const) {
+			expect(tokenize(text, mode).join('')).toBe(text);
+		}
+	});
+});
+
+describe('locale-aware segmentation', () => {
+	const ctx = (locale?: string) => ({ unitIndex: 0, revealed: '', locale });
+
+	it('splits unspaced scripts into words, attaching punctuation', () => {
+		expect(tokenize('「今日は良い天気です。」と彼', 'word', ctx('ja'))).toEqual([
+			'「今日',
+			'は',
+			'良い',
+			'天気',
+			'です。」',
+			'と',
+			'彼',
+		]);
+		expect(tokenize('สวัสดีครับ', 'word', ctx('th'))).toEqual(['สวัสดี', 'ครับ']);
+	});
+
+	it('keeps spaced text as whitespace-separated words', () => {
+		expect(tokenize("Don't stop, well-known friend!", 'word', ctx('en'))).toEqual([
+			"Don't",
+			' ',
+			'stop,',
+			' ',
+			'well-known',
+			' ',
+			'friend!',
+		]);
+	});
+
+	it('never splits graphemes in character mode', () => {
+		expect(tokenize('a👍🏽b👨‍👩‍👧é', 'character')).toEqual(['a', '👍🏽', 'b', '👨‍👩‍👧', 'é']);
+	});
+
+	describe('without Intl.Segmenter', () => {
+		const original = (Intl as { Segmenter?: unknown }).Segmenter;
+		beforeEach(() => {
+			delete (Intl as { Segmenter?: unknown }).Segmenter;
+		});
+		afterEach(() => {
+			(Intl as { Segmenter?: unknown }).Segmenter = original;
+		});
+
+		it('falls back to grapheme clusters', () => {
+			expect(tokenize('a👍🏽b👨‍👩‍👧é', 'character', ctx('xx-fallback'))).toEqual(['a', '👍🏽', 'b', '👨‍👩‍👧', 'é']);
+			expect(tokenize('今日は。', 'word', ctx('xx-fallback'))).toEqual(['今', '日', 'は。']);
+			expect(tokenize('hello world', 'word', ctx('xx-fallback'))).toEqual(['hello', ' ', 'world']);
+		});
+	});
+});
+
+describe('TreeStream streamBy', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('streams line by line', async () => {
+		const { container } = render(
+			<TreeStream as="pre" streamBy="line" speed={1} interval={10}>
+				{'const a = 1;\nconst b = 2;\nreturn a + b;'}
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await tick(10);
+		expect(host.textContent).toBe('const a = 1;\n');
+		await tick(10);
+		expect(host.textContent).toBe('const a = 1;\nconst b = 2;\n');
+		await tick(10, 3);
+		expect(host.textContent).toBe('const a = 1;\nconst b = 2;\nreturn a + b;');
+		expect(host.dataset.complete).toBe('true');
+	});
+
+	it('streams the tokens of a custom tokenizer', async () => {
+		const pairs: Tokenizer = (text) => text.match(/[^]{1,2}/g) ?? [];
+		const { container } = render(
+			<TreeStream streamBy={pairs} speed={1} interval={10}>
+				abcde
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await tick(10);
+		expect(host.textContent).toBe('ab');
+		await tick(10);
+		expect(host.textContent).toBe('abcd');
+		await tick(10, 3);
+		expect(host.textContent).toBe('abcde');
+		expect(host.dataset.complete).toBe('true');
+	});
+
+	it('streams Japanese word by word with a locale', async () => {
+		const { container } = render(
+			<TreeStream locale="ja" speed={1} interval={10}>
+				今日は良い天気です
+			</TreeStream>,
+		);
+		const host = container.querySelector('[data-tree-stream]') as HTMLElement;
+		await tick(10);
+		expect(host.textContent).toBe('今日');
+		await tick(10);
+		expect(host.textContent).toBe('今日は');
+	});
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { act } from 'react';
+import { TreeStream, useTreeStream, type TreeStreamOptions, type TreeStreamResult } from 'react-tree-stream';
+
+async function tick(ms: number, times = 1) {
+	for (let i = 0; i < times; i++) {
+		await act(async () => {
+			vi.advanceTimersByTime(ms);
+		});
+	}
+}
+
+function render(ui: React.ReactElement) {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	act(() => {
+		createRoot(container).render(ui);
+	});
+	return { container };
+}
+
+function Bubble({
+	content,
+	options,
+	result,
+}: {
+	content: React.ReactNode;
+	options?: TreeStreamOptions;
+	result: { current: TreeStreamResult | null };
+}) {
+	const stream = useTreeStream(content, { speed: 1, interval: 10, ...options });
+	result.current = stream;
+	return (
+		<p className="bubble" data-typing={stream.streaming}>
+			{stream.nodes}
+		</p>
+	);
+}
+
+describe('useTreeStream', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		document.body.innerHTML = '';
+	});
+	afterEach(() => {
+		vi.runOnlyPendingTimers();
+		vi.useRealTimers();
+	});
+
+	it('renders the revealed nodes into any layout without a wrapper', async () => {
+		const result: { current: TreeStreamResult | null } = { current: null };
+		const onComplete = vi.fn();
+		const { container } = render(<Bubble content="One two three" options={{ onComplete }} result={result} />);
+		const bubble = container.querySelector('.bubble')!;
+		expect(container.querySelector('[data-tree-stream]')).toBeNull();
+		expect(result.current).toMatchObject({ started: true, streaming: true, complete: false, progress: 0 });
+
+		await tick(10, 3);
+		expect(bubble.textContent).toBe('One two');
+		expect(result.current!.progress).toBeCloseTo(0.6);
+
+		await tick(10, 5);
+		expect(bubble.textContent).toBe('One two three');
+		expect(result.current).toMatchObject({ streaming: false, complete: true, progress: 1 });
+		expect(bubble.getAttribute('data-typing')).toBe('false');
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('returns the controls of the stream', async () => {
+		const result: { current: TreeStreamResult | null } = { current: null };
+		const { container } = render(<Bubble content="One two three" options={{ autoStart: false }} result={result} />);
+		expect(result.current!.started).toBe(false);
+
+		act(() => result.current!.start());
+		await tick(10);
+		act(() => result.current!.pause());
+		expect(result.current!.paused).toBe(true);
+		await tick(10, 3);
+		expect(container.textContent).toBe('One');
+
+		act(() => result.current!.finish());
+		expect(container.textContent).toBe('One two three');
+		expect(result.current!.complete).toBe(true);
+	});
+
+	it('coordinates nested streams like the component', async () => {
+		const result: { current: TreeStreamResult | null } = { current: null };
+		const content = (
+			<>
+				Intro
+				<TreeStream speed={1} interval={10}>
+					nested words
+				</TreeStream>
+				Outro
+			</>
+		);
+		const { container } = render(<Bubble content={content} result={result} />);
+		await tick(10, 3);
+		expect(container.textContent).toBe('Intronested');
+		expect(result.current!.streaming).toBe(true);
+		expect(result.current!.progress).toBeGreaterThan(0.25);
+		expect(result.current!.progress).toBeLessThan(0.75);
+		await tick(10, 10);
+		expect(container.textContent).toBe('Intronested wordsOutro');
+		expect(result.current!.complete).toBe(true);
+	});
+});